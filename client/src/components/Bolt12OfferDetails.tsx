@@ -0,0 +1,51 @@
+import { format } from "date-fns";
+import { decodeBolt12Offer, formatBolt12OfferAmount, isBolt12OfferExpired } from "@shared/bolt12";
+
+interface Bolt12OfferDetailsProps {
+  offer: string; // The "lno1..." offer
+  compact?: boolean; // One line for list cards instead of a field list
+}
+
+// Shows what a BOLT12 offer says about itself: who issued it, what it's for and how much it asks
+export default function Bolt12OfferDetails({ offer, compact = false }: Bolt12OfferDetailsProps) {
+  const decoded = decodeBolt12Offer(offer);
+  if (!decoded) {
+    return null;
+  }
+
+  const amount = formatBolt12OfferAmount(decoded);
+  const expiry = decoded.absoluteExpiry !== null ? new Date(decoded.absoluteExpiry * 1000) : null;
+  const isExpired = isBolt12OfferExpired(decoded);
+
+  if (compact) {
+    const parts = [decoded.description, decoded.issuer && `by ${decoded.issuer}`, amount].filter(Boolean);
+    if (!parts.length) {
+      return null;
+    }
+    return (
+      <p className="text-xs text-gray-500 break-words">
+        BOLT12 offer: {parts.join(' · ')}
+        {isExpired && <span className="text-amber-600"> (expired)</span>}
+      </p>
+    );
+  }
+
+  const fields: [string, string][] = [];
+  if (decoded.description) fields.push(["Description", decoded.description]);
+  if (decoded.issuer) fields.push(["Issuer", decoded.issuer]);
+  fields.push(["Amount", amount ?? "Any amount"]);
+  if (expiry) fields.push(["Expires", `${format(expiry, 'MMM d, yyyy HH:mm')}${isExpired ? ' (expired)' : ''}`]);
+  fields.push(["Network", decoded.chains.join(', ')]);
+  if (decoded.paths.length) fields.push(["Blinded paths", String(decoded.paths.length)]);
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs text-left mb-3">
+      {fields.map(([label, value]) => (
+        <div key={label} className="contents">
+          <dt className="text-gray-500">{label}</dt>
+          <dd className="text-gray-800 break-words">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
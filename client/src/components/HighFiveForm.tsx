@@ -10,23 +10,49 @@ import {
   FormField,
   FormItem,
   FormLabel,
+  FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useStore } from "../lib/store.tsx";
 import { useToast } from "@/hooks/use-toast";
-import { HighFiveDetails } from "../lib/types";
+import { HighFiveDetails, RecipientPreview as RecipientPreviewData, ResolvedRecipient, ResolverTraceEntry } from "../lib/types";
 import SuccessScreen from "./SuccessScreen";
+import RecipientPreview from "./RecipientPreview";
 import PaymentModal from "./PaymentModal";
 import NostrConnectModal from "./NostrConnectModal";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { DEFAULT_HONORARIUM_SATS, HONORARIUM_PRESETS_SATS, fiatCurrencies, formatSats } from "@shared/honorarium";
+import { parsePaymentInstruction, PAYMENT_INSTRUCTION_LABELS } from "@shared/payment-instructions";
+import { classifyRecipient, type RecipientInterpretation } from "@shared/recipient";
+
+// How long typing has to pause before the recipient is looked up
+const RECIPIENT_PREVIEW_DELAY_MS = 500;
+
+// Names of the server's payment resolvers, for error messages
+const RESOLVER_LABELS: Record<string, string> = {
+  static: "Configured instructions",
+  bip353: "₿tag (BIP-353)",
+  "lightning-address": "Lightning Address",
+  nip05: "NIP-05",
+  "nostr-profile": "Nostr profile",
+};
+
+/**
+ * Explain why each payment resolver that applied to the recipient failed
+ * @returns One line per resolver, or null if the trace has nothing useful
+ */
+function describeResolutionTrace(trace?: ResolverTraceEntry[]): string | null {
+  const attempts = (trace || []).filter((entry) => entry.status === 'failed' || entry.status === 'timeout');
+  if (!attempts.length) {
+    return null;
+  }
+  return attempts
+    .map((entry) => `${RESOLVER_LABELS[entry.resolver] || entry.resolver}: ${entry.reason}`)
+    .join("\n");
+}
 
 const formSchema = z.object({
   recipient: z.string().min(1, {
@@ -36,16 +62,38 @@ const formSchema = z.object({
     message: "Please explain what you're giving the High Five for",
   }),
   sender: z.string().optional(),
+  amountSats: z.coerce.number().int({
+    message: "Amount must be a whole number of sats",
+  }).positive({
+    message: "Amount must be at least 1 sat",
+  }),
+  // 'SAT' or a fiat currency the amount is converted from on the server
+  currency: z.enum(['SAT', ...fiatCurrencies]),
+  fiatAmount: z.coerce.number().optional(),
+  publicationPolicy: z.enum(['on_verify', 'immediate', 'delayed']),
+  publishDelayMinutes: z.coerce.number().int().min(1, {
+    message: "Delay must be at least one minute",
+  }).max(1440, {
+    message: "Delay can be at most 24 hours",
+  }),
+}).refine((values) => values.currency === 'SAT' || (values.fiatAmount ?? 0) > 0, {
+  message: "Please enter an amount",
+  path: ["fiatAmount"],
 });
 
 export default function HighFiveForm() {
-  const { bitcoinBalance, setBitcoinBalance, nostrUser, nostrProfileName } = useStore();
+  const { nostrUser, nostrProfileName } = useStore();
   const { toast } = useToast();
   const [successDetails, setSuccessDetails] = useState<HighFiveDetails | null>(null);
   const [paymentModalOpen, setPaymentModalOpen] = useState(false);
   const [pendingHighFive, setPendingHighFive] = useState<HighFiveDetails | null>(null);
-  // State to track input mode ('btag' or 'npub')
-  const [inputMode, setInputMode] = useState<'btag' | 'npub'>('btag');
+  // Which identity the sender picked when the recipient preview found several
+  const [selectedInterpretation, setSelectedInterpretation] = useState<RecipientInterpretation | null>(null);
+  // Set when a user@domain recipient is both a ₿tag and a NIP-05 name, until the sender picks one
+  const [recipientChoices, setRecipientChoices] = useState<{
+    values: z.infer<typeof formSchema>;
+    candidates: ResolvedRecipient[];
+  } | null>(null);
   // State for Nostr connection modal
   const [isNostrModalOpen, setIsNostrModalOpen] = useState(false);
 
@@ -55,6 +103,11 @@ export default function HighFiveForm() {
       recipient: "",
       reason: "",
       sender: nostrUser || "<send anonymously>",
+      amountSats: DEFAULT_HONORARIUM_SATS,
+      currency: "SAT",
+      fiatAmount: 5,
+      publicationPolicy: "on_verify",
+      publishDelayMinutes: 60,
     },
   });
   
@@ -69,67 +122,66 @@ export default function HighFiveForm() {
     }
   }, [nostrUser, form]);
 
-  // Clear the recipient field when switching between modes
+  // A pending choice only applies to the recipient it was offered for
+  const recipientValue = form.watch("recipient");
   useEffect(() => {
-    form.setValue("recipient", "");
-  }, [inputMode, form]);
+    setRecipientChoices(null);
+    setSelectedInterpretation(null);
+  }, [recipientValue]);
+  
+  // Preview who the recipient is once the sender stops typing, for anything that looks like an identifier
+  const debouncedRecipient = useDebouncedValue(recipientValue.trim(), RECIPIENT_PREVIEW_DELAY_MS);
+  const canPreview = classifyRecipient(debouncedRecipient) !== 'unknown';
+  const { data: recipientPreview, isFetching: isPreviewLoading } = useQuery<RecipientPreviewData>({
+    queryKey: [`/api/resolve-recipient?recipient=${encodeURIComponent(debouncedRecipient)}`],
+    enabled: canPreview,
+    // Profiles and DNS records change, but not while someone fills in the form
+    staleTime: 5 * 60 * 1000,
+  });
+  const isPreviewCurrent = canPreview && debouncedRecipient === recipientValue.trim();
 
   const [isVerifyingPayment, setIsVerifyingPayment] = useState(false);
+  
+  // Show the delay input only for the delayed publication policy
+  const publicationPolicy = form.watch("publicationPolicy");
+  
+  // Highlight the preset matching the chosen amount, if any
+  const amountSats = form.watch("amountSats");
+  const currency = form.watch("currency");
 
   async function handleFormSubmit(values: z.infer<typeof formSchema>) {
-    // Append two line breaks and high five emojis to the reason
-    const enhancedReason = `${values.reason}\n\n✋✋✋`;
+    // The preview found both a ₿tag and a Nostr identity, so the sender has to say which
+    if (isPreviewCurrent && recipientPreview && recipientPreview.candidates.length > 1 && !selectedInterpretation) {
+      form.setError("recipient", { message: "Choose who you mean below" });
+      return;
+    }
     
     // Show loading state while we verify payment instructions
     setIsVerifyingPayment(true);
+    setRecipientChoices(null);
     
     try {
       let response;
       const recipient = values.recipient;
       
-      // Each address type should use its specified endpoint
-      if (inputMode === 'npub') {
-        // For npub, look up payment instructions via npub endpoint
-        response = await axios.get(`/api/payment-instructions?npub=${encodeURIComponent(recipient)}`);
-      } else {
-        // For btag/lightning, use a combined endpoint that will try both methods
-        response = await axios.get(`/api/combined-payment-instructions?address=${encodeURIComponent(recipient)}`);
-      }
+      // Fiat amounts are converted to sats by the server at the current rate
+      const amountQuery = values.currency === 'SAT'
+        ? `amount=${values.amountSats}`
+        : `amount=${values.fiatAmount}&currency=${values.currency}`;
+      
+      // Describe the high five and its sender in the recipient's wallet; anonymous senders stay anonymous
+      const isAnonymous = !values.sender || values.sender === '<send anonymously>';
+      const senderName = isAnonymous ? '' : (nostrProfileName || values.sender || '');
+      const senderNpub = !isAnonymous && values.sender?.startsWith('npub') ? values.sender : '';
+      const detailsQuery = `reason=${encodeURIComponent(values.reason)}&senderName=${encodeURIComponent(senderName)}&senderNpub=${encodeURIComponent(senderNpub)}`;
+      
+      // The server works out what kind of recipient this is; user@domain is tried as both
+      // a ₿tag and a NIP-05 name unless the sender already picked one in the preview
+      const interpretationQuery = selectedInterpretation ? `&as=${selectedInterpretation}` : '';
+      response = await axios.get(`/api/payment-instructions?recipient=${encodeURIComponent(recipient)}${interpretationQuery}&${amountQuery}&${detailsQuery}`);
       
       if (response.data && response.data.paymentInstructions) {
-        // Create and post the High Five to Nostr immediately
-        const lightningInvoice = response.data.paymentInstructions;
-        
-        // Send to API with lightning invoice and get the response including Nostr event ID
-        const result = await apiRequest(
-          'POST',
-          '/api/high-fives', 
-          {
-            recipient: values.recipient,
-            reason: enhancedReason,
-            sender: values.sender || undefined,
-            profileName: response.data.profileName, // Include profile name if available
-            lightningInvoice: lightningInvoice, // Pass lightning invoice separately
-            recipientType: inputMode // Indicate the type of recipient
-          }
-        );
-        
-        // Invalidate the high fives query cache
-        queryClient.invalidateQueries({ queryKey: ['/api/high-fives'] });
-        
-        // Store the high five details with Nostr event ID for later use
-        setPendingHighFive({
-          recipient: values.recipient,
-          reason: enhancedReason,
-          sender: values.sender || undefined,
-          profileName: response.data.profileName,
-          nostrEventId: result.nostrEventId,
-          senderProfileName: result.senderProfileName,
-          recipientType: inputMode // Include the recipient type
-        });
-        
-        // Open payment modal
-        setPaymentModalOpen(true);
+        await createHighFive(values, response.data);
       } else {
         // This shouldn't happen based on API design but handling just in case
         throw new Error("Invalid payment instructions");
@@ -138,27 +190,39 @@ export default function HighFiveForm() {
       console.error("Error fetching payment instructions:", error);
       
       // Check if it's a network error vs. no payment instructions
+      const isAmbiguous = error?.response && error.response.status === 300 && error.response.data?.candidates?.length;
       const isServerError = error?.response && (error.response.status >= 500 || error.response.status === 0);
       const isNotFoundError = error?.response && error.response.status === 404;
+      const isAmountError = error?.response && error.response.status === 422;
+      const isRateError = error?.response && error.response.status === 503 && values.currency !== 'SAT';
       
-      if (isServerError) {
+      if (isAmbiguous) {
+        // Both a ₿tag and a Nostr identity: let the sender say who they meant
+        setRecipientChoices({ values, candidates: error.response.data.candidates });
+      } else if (isRateError) {
+        // The exchange rate couldn't be fetched, so the amount can't be converted
+        form.setError("fiatAmount", {
+          message: error.response.data?.details || "Could not convert this amount to sats right now",
+        });
+      } else if (isAmountError) {
+        // The recipient only accepts amounts within their LNURL-pay limits
+        form.setError(values.currency === 'SAT' ? "amountSats" : "fiatAmount", {
+          message: error.response.data?.details || "This recipient doesn't accept that amount",
+        });
+      } else if (isServerError) {
         toast({
           title: "Service Temporarily Unavailable",
           description: "We're having trouble connecting to the payment network. Please try again in a few moments.",
           variant: "destructive",
         });
       } else if (isNotFoundError) {
-        let message = "No payment instructions found for this recipient. Please verify the address is correct.";
-        
-        if (inputMode === 'npub') {
-          message = "This Nostr profile doesn't have a Lightning Address configured. Please try a different recipient.";
-        } else {
-          message = "Neither DNS lookup nor Lightning invoice generation worked for this address. Please verify it is correct.";
-        }
+        // The server says what each resolver tried, which beats a generic message
+        const message = describeResolutionTrace(error.response.data?.trace)
+          || "No payment instructions found for this recipient. Please verify the address is correct.";
         
         toast({
           title: "Payment Lookup Error",
-          description: message,
+          description: <span className="whitespace-pre-line">{message}</span>,
           variant: "destructive",
         });
       } else {
@@ -173,21 +237,129 @@ export default function HighFiveForm() {
     }
   }
 
-  async function sendHighFive(lightningInvoice: string) {
+  /**
+   * Create the high five with the resolved payment instructions and open the payment modal
+   * @param values The form values
+   * @param resolved The payment instructions for the recipient
+   */
+  async function createHighFive(values: z.infer<typeof formSchema>, resolved: ResolvedRecipient) {
+    // Append two line breaks and high five emojis to the reason
+    const enhancedReason = `${values.reason}\n\n✋✋✋`;
+    
+    // Create and post the High Five to Nostr immediately
+    const lightningInvoice = resolved.paymentInstructions;
+    
+    // Nostr identities are stored as npubs, so the note can tag them
+    const recipient = resolved.recipientNpub || values.recipient;
+    
+    // Send to API with lightning invoice and get the response including Nostr event ID
+    const result = await apiRequest(
+      'POST',
+      '/api/high-fives', 
+      {
+        recipient,
+        reason: enhancedReason,
+        sender: values.sender || undefined,
+        profileName: resolved.profileName, // Include profile name if available
+        lightningInvoice: lightningInvoice, // Pass lightning invoice separately
+        amountSats: resolved.amountSats,
+        fiatCurrency: resolved.fiatCurrency, // The server works out the fiat amount itself
+        recipientType: resolved.interpretation, // Indicate the type of recipient
+        publicationPolicy: values.publicationPolicy,
+        publishDelayMinutes: values.publicationPolicy === 'delayed' ? values.publishDelayMinutes : undefined
+      }
+    );
+    
+    // Invalidate the high fives query cache
+    queryClient.invalidateQueries({ queryKey: ['/api/high-fives'] });
+    
+    // Store the high five details with Nostr event ID for later use
+    setPendingHighFive({
+      id: result.id,
+      recipient,
+      reason: enhancedReason,
+      sender: values.sender || undefined,
+      profileName: resolved.profileName,
+      nostrEventId: result.nostrEventId,
+      senderProfileName: result.senderProfileName,
+      recipientType: resolved.interpretation, // Include the recipient type
+      // Show the same invoice the server is tracking for this high five,
+      // which is a zap invoice for npub recipients whose wallet supports zaps
+      paymentInstructions: result.paymentInstructions || lightningInvoice,
+      paymentInstruction: result.paymentInstructions
+        ? parsePaymentInstruction(result.paymentInstructions)
+        : resolved.paymentInstruction,
+      isZap: !!result.zapRequest,
+      lightningAddress: resolved.lightningAddress,
+      paymentStatus: result.paymentStatus,
+      publicationPolicy: values.publicationPolicy,
+      amountSats: result.amountSats ?? resolved.amountSats,
+      fiatAmount: result.fiatAmount ?? resolved.fiatAmount,
+      fiatCurrency: resolved.fiatCurrency
+    });
+    
+    // Open payment modal
+    setPaymentModalOpen(true);
+  }
+  
+  async function chooseRecipient(candidate: ResolvedRecipient) {
+    if (!recipientChoices) return;
+    
+    setIsVerifyingPayment(true);
+    try {
+      await createHighFive(recipientChoices.values, candidate);
+      setRecipientChoices(null);
+    } catch (error) {
+      console.error("Error creating high five:", error);
+      toast({
+        title: "Error",
+        description: "There was a problem creating your High Five. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifyingPayment(false);
+    }
+  }
+
+  async function sendHighFive() {
     if (!pendingHighFive) return;
     
     try {
       // High Five has already been created and posted to Nostr
       // All we need to do is close the payment modal and show the success screen
       
+      // Ask the server whether the payment has been verified yet
+      let paymentStatus = pendingHighFive.paymentStatus;
+      if (pendingHighFive.id && paymentStatus) {
+        try {
+          const status = await apiRequest('GET', `/api/high-fives/${pendingHighFive.id}/payment-status`);
+          paymentStatus = status.paymentStatus;
+        } catch (statusError) {
+          console.error("Error checking payment status:", statusError);
+        }
+      }
+      // Also when a refreshed invoice turned out not to be verifiable
+      if (pendingHighFive.id && !paymentStatus) {
+        // The server can't verify this payment, so it waits for the sender to say it's done
+        try {
+          await apiRequest('POST', `/api/high-fives/${pendingHighFive.id}/confirm-payment`);
+        } catch (confirmError) {
+          console.error("Error confirming payment:", confirmError);
+        }
+      }
+      
       // Close payment modal
       setPaymentModalOpen(false);
       
       // Show success screen with details that were already stored
       setSuccessDetails({
-        ...pendingHighFive
+        ...pendingHighFive,
+        paymentStatus
       });
       
+      // Refresh the list so the payment status is up to date
+      queryClient.invalidateQueries({ queryKey: ['/api/high-fives'] });
+      
       // Clear pending high five
       setPendingHighFive(null);
     } catch (error) {
@@ -216,6 +388,11 @@ export default function HighFiveForm() {
       recipient: "",
       reason: "",
       sender: nostrUser || "<send anonymously>",
+      amountSats: DEFAULT_HONORARIUM_SATS,
+      currency: "SAT",
+      fiatAmount: 5,
+      publicationPolicy: "on_verify",
+      publishDelayMinutes: 60,
     });
   };
 
@@ -238,38 +415,48 @@ export default function HighFiveForm() {
               name="recipient"
               render={({ field }) => (
                 <FormItem className="space-y-2">
-                  <div className="flex justify-between items-center">
-                    <FormLabel className="font-futura font-bold text-lg">Who to High Five</FormLabel>
-                    <div className="flex items-center text-xs space-x-2">
-                      <span className="text-gray-500 font-normal">Use:</span>
-                      
-                      {/* Simple dropdown instead */}
-                      <select
-                        value={inputMode}
-                        onChange={(e) => setInputMode(e.target.value as 'btag' | 'npub')}
-                        className="text-xs h-7 px-2 py-1 rounded border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent min-w-[120px]"
-                      >
-                        <option value="btag">₿tag</option>
-                        <option value="npub">npub</option>
-                      </select>
-                    </div>
-                  </div>
+                  <FormLabel className="font-futura font-bold text-lg">Who to High Five</FormLabel>
                   <FormControl>
-                    <div className="relative">
-                      {inputMode === 'btag' && (
-                        <span className="absolute inset-y-0 left-3 flex items-center text-black">₿</span>
-                      )}
-                      <Input
-                        placeholder={
-                          inputMode === 'btag' ? "LN Address or BIP-353 address" : 
-                          "Enter an npub..."
-                        }
-                        className={`p-3 ${inputMode === 'btag' ? 'pl-8' : 'pl-3'} focus:ring-primary placeholder:text-gray-400 placeholder:font-normal`}
-                        {...field}
-                      />
-                    </div>
+                    <Input
+                      placeholder="₿tag, Lightning Address, npub or NIP-05 name"
+                      className="p-3 focus:ring-primary placeholder:text-gray-400 placeholder:font-normal"
+                      {...field}
+                    />
                   </FormControl>
-
+                  <FormMessage />
+                  {isPreviewCurrent && (
+                    <RecipientPreview
+                      preview={recipientPreview}
+                      isLoading={isPreviewLoading}
+                      selected={selectedInterpretation}
+                      onSelect={(interpretation) => {
+                        setSelectedInterpretation(interpretation);
+                        form.clearErrors("recipient");
+                      }}
+                    />
+                  )}
+                  {recipientChoices && (
+                    <div className="rounded border border-amber-300 bg-amber-50 p-3 space-y-2">
+                      <p className="text-sm text-gray-700">
+                        {recipientChoices.values.recipient} is both a ₿tag and a Nostr identity. Who did you mean?
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {recipientChoices.candidates.map((candidate) => (
+                          <button
+                            key={candidate.interpretation}
+                            type="button"
+                            disabled={isVerifyingPayment}
+                            onClick={() => chooseRecipient(candidate)}
+                            className="text-sm h-9 px-3 rounded border border-gray-300 bg-white hover:border-primary disabled:opacity-50"
+                          >
+                            {candidate.interpretation === 'nostr'
+                              ? `Nostr: ${candidate.profileName || 'profile'}`
+                              : `₿tag: ${PAYMENT_INSTRUCTION_LABELS[candidate.paymentInstruction.type]}`}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </FormItem>
               )}
             />
@@ -292,7 +479,132 @@ export default function HighFiveForm() {
               )}
             />
 
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="font-futura font-bold text-lg">How much?</span>
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <div className="flex items-center text-xs space-x-2">
+                      <span className="text-gray-500 font-normal">In:</span>
+                      <select
+                        {...field}
+                        className="text-xs h-7 px-2 py-1 rounded border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                      >
+                        <option value="SAT">sats</option>
+                        {fiatCurrencies.map((code) => (
+                          <option key={code} value={code}>{code}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                />
+              </div>
+              {currency === 'SAT' ? (
+                <FormField
+                  control={form.control}
+                  name="amountSats"
+                  render={({ field }) => (
+                    <FormItem className="space-y-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        {HONORARIUM_PRESETS_SATS.map((preset) => (
+                          <button
+                            key={preset}
+                            type="button"
+                            onClick={() => form.setValue("amountSats", preset, { shouldValidate: true })}
+                            className={`text-sm h-9 px-3 rounded border transition-colors ${
+                              Number(amountSats) === preset
+                                ? 'bg-primary text-white border-primary'
+                                : 'border-gray-300 hover:border-primary'
+                            }`}
+                          >
+                            {formatSats(preset)}
+                          </button>
+                        ))}
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            step={1}
+                            placeholder="Custom"
+                            className="h-9 w-28 p-2"
+                            {...field}
+                          />
+                        </FormControl>
+                        <span className="text-sm text-gray-500">sats</span>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="fiatAmount"
+                  render={({ field }) => (
+                    <FormItem className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            className="h-9 w-28 p-2"
+                            {...field}
+                          />
+                        </FormControl>
+                        <span className="text-sm text-gray-500">{currency}, converted to sats at today's rate</span>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
 
+            <FormField
+              control={form.control}
+              name="publicationPolicy"
+              render={({ field }) => (
+                <FormItem className="space-y-2">
+                  <FormLabel className="font-futura font-bold text-lg">Post to Nostr</FormLabel>
+                  <div className="flex items-center gap-2">
+                    <FormControl>
+                      <select
+                        {...field}
+                        className="text-sm h-9 px-2 py-1 rounded border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                      >
+                        <option value="on_verify">Once my payment is confirmed</option>
+                        <option value="immediate">Right away</option>
+                        <option value="delayed">After a delay, paid or not</option>
+                      </select>
+                    </FormControl>
+                    {publicationPolicy === 'delayed' && (
+                      <FormField
+                        control={form.control}
+                        name="publishDelayMinutes"
+                        render={({ field: delayField }) => (
+                          <FormItem className="flex items-center gap-2 space-y-0">
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={1}
+                                max={1440}
+                                className="h-9 w-20 p-2"
+                                {...delayField}
+                              />
+                            </FormControl>
+                            <span className="text-sm text-gray-500">minutes</span>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                </FormItem>
+              )}
+            />
 
             <div className="space-y-2">
               <div className="flex items-center gap-2">
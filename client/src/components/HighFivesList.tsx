@@ -3,19 +3,11 @@ import { getQueryFn } from "@/lib/queryClient";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { format, parseISO } from "date-fns";
-
-// Define the type for high fives from the server
-interface ServerHighFive {
-  id: number;
-  recipient: string;
-  reason: string;
-  sender: string | null;
-  createdAt: string;
-  nostrEventId?: string;
-  profileName?: string;
-  senderProfileName?: string;
-  qrCodePath?: string;
-}
+import PaymentStatusBadge from "./PaymentStatusBadge";
+import Bolt12OfferDetails from "./Bolt12OfferDetails";
+import { formatSats, formatFiat } from "@shared/honorarium";
+import { ServerHighFive } from "@/lib/types";
+import { parsePaymentInstruction } from "@shared/payment-instructions";
 
 export default function HighFivesList() {
   const { data: highFives, isLoading, error } = useQuery({
@@ -70,7 +62,9 @@ export default function HighFivesList() {
 
   return (
     <div className="space-y-6 py-2">
-      {sortedHighFives.map((highFive) => (
+      {sortedHighFives.map((highFive) => {
+        const paymentInstruction = highFive.paymentInstructions ? parsePaymentInstruction(highFive.paymentInstructions) : null;
+        return (
         <Card key={highFive.id} className="bg-white shadow-md hover:shadow-lg transition-shadow">
           <CardContent className="p-5">
             <div className="space-y-4">
@@ -87,10 +81,19 @@ export default function HighFivesList() {
               </div>
               
               <div className="flex flex-col sm:flex-row justify-between items-start gap-2">
-                <div>
+                <div className="flex items-center gap-2">
                   <p className="text-xs text-gray-400 font-normal font-sans">
                     {format(parseISO(highFive.createdAt), 'MMM d')}
                   </p>
+                  {highFive.amountSats && (
+                    <p className="text-xs font-medium text-gray-600">
+                      {formatSats(highFive.amountSats)}
+                      {highFive.fiatAmount && highFive.fiatCurrency && (
+                        <span className="text-gray-400"> (≈ {formatFiat(highFive.fiatAmount, highFive.fiatCurrency)})</span>
+                      )}
+                    </p>
+                  )}
+                  <PaymentStatusBadge status={highFive.paymentStatus} />
                 </div>
                 {highFive.sender && highFive.sender !== '<send anonymously>' && (
                   <div className="w-full sm:text-right">
@@ -112,6 +115,11 @@ export default function HighFivesList() {
                     alt="QR Code for BOLT12 offer" 
                     className="w-48 h-48 object-contain" 
                   />
+                  {paymentInstruction?.type === 'bolt12' && (
+                    <div className="mt-2 text-center">
+                      <Bolt12OfferDetails offer={paymentInstruction.offer} compact />
+                    </div>
+                  )}
                 </div>
               )}
               
@@ -126,12 +134,18 @@ export default function HighFivesList() {
                   >
                     See on Nostr
                   </a>
+                  {highFive.seenOnRelays != null && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      Seen on {highFive.seenOnRelays} {highFive.seenOnRelays === 1 ? 'relay' : 'relays'}
+                    </p>
+                  )}
                 </div>
               )}
             </div>
           </CardContent>
         </Card>
-      ))}
+        );
+      })}
     </div>
   );
 }
\ No newline at end of file
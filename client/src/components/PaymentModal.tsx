@@ -2,10 +2,14 @@ import React, { useState, useEffect, useRef } from "react";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { QRCodeSVG } from "qrcode.react";
-import { HighFiveDetails } from "@/lib/types";
+import { HighFiveDetails, DecodedInvoice, PaymentStatus } from "@/lib/types";
 import { useToast } from "@/hooks/use-toast";
 import axios from "axios";
 import { X, ChevronDown, ChevronUp } from "lucide-react";
+import { subscribeToHighFiveUpdates } from "@/lib/websocket";
+import Bolt12OfferDetails from "./Bolt12OfferDetails";
+import { DEFAULT_HONORARIUM_SATS, formatSats } from "@shared/honorarium";
+import { parsePaymentInstruction, getPaymentInstructionValue, PAYMENT_INSTRUCTION_LABELS, type PaymentInstruction } from "@shared/payment-instructions";
 
 interface PaymentModalProps {
   isOpen: boolean;
@@ -14,9 +18,21 @@ interface PaymentModalProps {
   onConfirmPayment: (paymentInstructions: string) => void;
 }
 
+/**
+ * Format the time left on an invoice, e.g. "4:05" or "1:00:00"
+ */
+function formatTimeLeft(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
 interface PaymentData {
   paymentInstructions: string;
-  paymentType?: string;
+  paymentInstruction: PaymentInstruction | null;
   lightningAddress?: string;
 }
 
@@ -32,6 +48,16 @@ export default function PaymentModal({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isDetailsExpanded, setIsDetailsExpanded] = useState(false);
+  const [decodedInvoice, setDecodedInvoice] = useState<DecodedInvoice | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  // Replaced when an expired invoice is refreshed, as the new one may not be verifiable
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus | null>(highFiveDetails.paymentStatus ?? null);
+  
+  // Payments the server can verify advance to the success screen on their own
+  const canVerifyPayment = !!highFiveDetails.id && paymentStatus === 'pending';
+  const onConfirmPaymentRef = useRef(onConfirmPayment);
+  onConfirmPaymentRef.current = onConfirmPayment;
 
   // Fetch payment instructions when the modal opens
   useEffect(() => {
@@ -40,19 +66,32 @@ export default function PaymentModal({
       setError(null);
       setPaymentData(null);
       setIsDetailsExpanded(false); // Reset expansion state
+      setPaymentStatus(highFiveDetails.paymentStatus ?? null);
+      
+      // Reuse the invoice the high five was created with, so the payment can be verified
+      if (highFiveDetails.paymentInstructions) {
+        setPaymentData({
+          paymentInstructions: highFiveDetails.paymentInstructions,
+          paymentInstruction: highFiveDetails.paymentInstruction ?? parsePaymentInstruction(highFiveDetails.paymentInstructions),
+          lightningAddress: highFiveDetails.lightningAddress
+        });
+        setIsLoading(false);
+        return;
+      }
       
       // Recipient field can be either a btag or an npub
       const recipient = highFiveDetails.recipient;
+      const amount = highFiveDetails.amountSats ?? DEFAULT_HONORARIUM_SATS;
       
       // Determine the type of recipient
       let endpoint;
       
       if (recipient.startsWith('npub')) {
         // Handle Nostr npub
-        endpoint = `/api/payment-instructions?npub=${encodeURIComponent(recipient)}`;
+        endpoint = `/api/payment-instructions?npub=${encodeURIComponent(recipient)}&amount=${amount}`;
       } else {
         // Handle btag/lightning with combined endpoint
-        endpoint = `/api/combined-payment-instructions?address=${encodeURIComponent(recipient)}`;
+        endpoint = `/api/combined-payment-instructions?address=${encodeURIComponent(recipient)}&amount=${amount}`;
       }
         
       axios.get(endpoint)
@@ -61,7 +100,7 @@ export default function PaymentModal({
             console.log("Payment instructions lookup successful", response.data);
             setPaymentData({
               paymentInstructions: response.data.paymentInstructions,
-              paymentType: response.data.paymentType,
+              paymentInstruction: response.data.paymentInstruction ?? parsePaymentInstruction(response.data.paymentInstructions),
               lightningAddress: response.data.lightningAddress
             });
             setIsLoading(false);
@@ -90,7 +129,7 @@ export default function PaymentModal({
             
             // Check for specific error types
             if (recipient.startsWith('npub') && err.response && err.response.status === 404) {
-              description = "This Nostr profile doesn't have a Lightning Address configured. Please try a different recipient.";
+              description = "This Nostr profile doesn't have a Lightning Address or LNURL configured. Please try a different recipient.";
             }
             
             toast({
@@ -101,7 +140,90 @@ export default function PaymentModal({
           }, 1500);
         });
     }
-  }, [isOpen, highFiveDetails.recipient, toast, onClose]);
+  }, [isOpen, highFiveDetails.recipient, highFiveDetails.amountSats, highFiveDetails.paymentInstructions, highFiveDetails.paymentInstruction, highFiveDetails.lightningAddress, highFiveDetails.paymentStatus, toast, onClose]);
+
+  // Decode Lightning invoices so the amount and expiry can be shown
+  const invoiceToDecode = paymentData?.paymentInstruction?.type === 'bolt11'
+    ? paymentData.paymentInstructions
+    : null;
+  useEffect(() => {
+    setDecodedInvoice(null);
+    setSecondsLeft(null);
+    if (!isOpen || !invoiceToDecode) {
+      return;
+    }
+    
+    axios.get(`/api/decode-invoice?invoice=${encodeURIComponent(invoiceToDecode)}`)
+      .then(response => setDecodedInvoice(response.data))
+      .catch(err => console.error("Error decoding invoice:", err));
+  }, [isOpen, invoiceToDecode]);
+
+  // Count down to the invoice's expiry
+  useEffect(() => {
+    if (!decodedInvoice) {
+      return;
+    }
+    
+    const expiresAt = Date.parse(decodedInvoice.expiresAt);
+    const updateSecondsLeft = () => setSecondsLeft(Math.max(0, Math.floor((expiresAt - Date.now()) / 1000)));
+    updateSecondsLeft();
+    
+    const timer = setInterval(updateSecondsLeft, 1000);
+    return () => clearInterval(timer);
+  }, [decodedInvoice]);
+
+  // Swap an expired invoice for a fresh one the server will track for this high five
+  const refreshInvoice = async () => {
+    if (isRefreshing) {
+      return;
+    }
+    if (!highFiveDetails.id) {
+      setError("This invoice has expired. Please close this window and try again.");
+      return;
+    }
+    
+    setIsRefreshing(true);
+    try {
+      const response = await axios.post(`/api/high-fives/${highFiveDetails.id}/invoice`);
+      console.log("Refreshed expired invoice", response.data);
+      setPaymentData({
+        paymentInstructions: response.data.paymentInstructions,
+        paymentInstruction: response.data.paymentInstruction,
+        lightningAddress: paymentData?.lightningAddress
+      });
+      // 'pending' only if the server can verify the new invoice
+      setPaymentStatus(response.data.paymentStatus ?? null);
+      setError(null);
+    } catch (err) {
+      console.error("Error refreshing invoice:", err);
+      setError("This invoice expired before it was paid. Please close this window and try again.");
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+  const refreshInvoiceRef = useRef(refreshInvoice);
+  refreshInvoiceRef.current = refreshInvoice;
+
+  useEffect(() => {
+    if (isOpen && secondsLeft === 0) {
+      refreshInvoiceRef.current();
+    }
+  }, [isOpen, secondsLeft]);
+
+  // Wait for the server to push payment updates for this high five
+  useEffect(() => {
+    if (!isOpen || !canVerifyPayment || !highFiveDetails.id) {
+      return;
+    }
+    
+    return subscribeToHighFiveUpdates({ highFiveId: highFiveDetails.id }, (update) => {
+      if (update.type === 'paymentReceived') {
+        onConfirmPaymentRef.current(update.invoice || highFiveDetails.paymentInstructions || '');
+      } else if (update.type === 'expired') {
+        refreshInvoiceRef.current();
+      }
+    });
+  }, [isOpen, canVerifyPayment, highFiveDetails.id, highFiveDetails.paymentInstructions]);
 
   const handleConfirmPayment = () => {
     // Only proceed if we have valid payment instructions
@@ -121,13 +243,10 @@ export default function PaymentModal({
   const getQRCodeLabel = () => {
     if (!paymentData) return "";
     
-    // Check if this is a BOLT12 offer based on the content (starts with bitcoin:?lno=)
-    if (paymentData.paymentInstructions.startsWith('bitcoin:?lno=')) {
-      return "Pay this BOLT12 offer";
-    } else if (paymentData.paymentType === 'lnurl') {
-      return "Pay this LNURL";
-    } else if (paymentData.paymentType && paymentData.paymentType.includes('bolt11')) {
-      return "Pay this Lightning invoice";
+    if (highFiveDetails.isZap) {
+      return "Zap this High Five";
+    } else if (paymentData.paymentInstruction) {
+      return `Pay this ${PAYMENT_INSTRUCTION_LABELS[paymentData.paymentInstruction.type]}`;
     } else {
       return "Scan with a Lightning wallet";
     }
@@ -137,14 +256,11 @@ export default function PaymentModal({
   const getAdditionalInfo = () => {
     if (!paymentData) return null;
     
-    // Only show Lightning Address for BOLT11/Lightning Address payments, not for BOLT12 offers
-    // Detect BOLT12 offers by checking if the payment instruction starts with bitcoin:?lno=
-    const isBolt12 = paymentData.paymentInstructions.startsWith('bitcoin:?lno=');
-    
-    if (paymentData.lightningAddress && !isBolt12) {
+    // Only show Lightning Address for invoices fetched from it, not for BIP-353 instructions
+    if (paymentData.lightningAddress && paymentData.paymentInstruction?.type === 'bolt11') {
       return (
         <div className="text-center mt-2 text-xs text-gray-500">
-          Lightning Address: {paymentData.lightningAddress}
+          {paymentData.lightningAddress.includes('@') ? 'Lightning Address' : 'LNURL'}: {paymentData.lightningAddress}
         </div>
       );
     }
@@ -152,7 +268,7 @@ export default function PaymentModal({
   };
 
   // Check if payment is BOLT12 offer
-  const isBolt12 = paymentData?.paymentInstructions.startsWith('bitcoin:?lno=');
+  const isBolt12 = paymentData?.paymentInstruction?.type === 'bolt12';
 
   return (
     <Dialog open={isOpen} onOpenChange={() => {}}>
@@ -165,7 +281,9 @@ export default function PaymentModal({
           <span className="sr-only">Close</span>
         </button>
         <DialogTitle className="text-center text-xl font-bold">
-          Send your bitcoin now
+          {highFiveDetails.amountSats
+            ? `Send your ${formatSats(highFiveDetails.amountSats)} now`
+            : "Send your bitcoin now"}
         </DialogTitle>
         
         <div className="mt-4 flex flex-col items-center">
@@ -198,6 +316,28 @@ export default function PaymentModal({
               <div className="text-center mt-4">
                 <div className="text-sm text-gray-600 mb-2">{getQRCodeLabel()}</div>
                 
+                {(paymentData.paymentInstruction?.type === 'onchain' || paymentData.paymentInstruction?.type === 'silent_payment') && (
+                  <div className="text-xs text-gray-500 mb-2">
+                    Scan with any bitcoin wallet; the amount is filled in for you.
+                    On-chain payments can't be confirmed here automatically.
+                  </div>
+                )}
+                
+                {paymentData.paymentInstruction?.type === 'bolt12' && (
+                  <div className="mb-2">
+                    <Bolt12OfferDetails offer={paymentData.paymentInstruction.offer} compact />
+                  </div>
+                )}
+                
+                {decodedInvoice && (
+                  <div className="text-xs text-gray-500 mb-2">
+                    {decodedInvoice.amountSats !== null && <span>{formatSats(decodedInvoice.amountSats)} · </span>}
+                    {isRefreshing || secondsLeft === 0
+                      ? "Getting a fresh invoice..."
+                      : secondsLeft !== null && `Expires in ${formatTimeLeft(secondsLeft)}`}
+                  </div>
+                )}
+                
                 {/* Collapsible payment instructions */}
                 <div className="mt-3">
                   {/* Collapsible header */}
@@ -218,12 +358,13 @@ export default function PaymentModal({
                   {/* Collapsible content */}
                   {isDetailsExpanded && (
                     <div className="p-3 border-x border-b border-gray-200 rounded-b-md bg-white">
+                      {paymentData.paymentInstruction?.type === 'bolt12' && (
+                        <Bolt12OfferDetails offer={paymentData.paymentInstruction.offer} />
+                      )}
                       <div className="text-xs font-mono p-2 rounded border border-gray-200 overflow-auto break-all select-all cursor-pointer" style={{ fontSize: '9px', maxHeight: '120px' }}>
-                        {isBolt12 
-                          ? (paymentData.paymentInstructions.indexOf('lno=') !== -1 
-                              ? paymentData.paymentInstructions.substring(paymentData.paymentInstructions.indexOf('lno=') + 4) // Remove lno= prefix
-                              : paymentData.paymentInstructions) // Fallback if format is different
-                          : paymentData.paymentInstructions // Show full invoice for other payment types
+                        {paymentData.paymentInstruction
+                          ? getPaymentInstructionValue(paymentData.paymentInstruction) // The offer, invoice or address without URI wrapping
+                          : paymentData.paymentInstructions
                         }
                       </div>
                       <div className="text-xs text-gray-500 mt-2">
@@ -239,13 +380,23 @@ export default function PaymentModal({
           )}
           
           <div className="w-full flex flex-col gap-3 mt-4">
-            <Button 
-              className="w-full bg-primary hover:bg-primary/90 text-white font-futura font-bold py-3 px-6 rounded-lg transition duration-300"
-              onClick={handleConfirmPayment}
-              disabled={isLoading || !paymentData || !paymentData.paymentInstructions}
-            >
-              {isLoading ? "Looking up payment details..." : "I have sent the bitcoin"}
-            </Button>
+            {canVerifyPayment ? (
+              !error && (
+                <div className="flex items-center justify-center text-sm text-gray-600 py-3">
+                  <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent"></div>
+                  Waiting for your payment...
+                </div>
+              )
+            ) : (
+              // We can't confirm this payment ourselves, so rely on the sender
+              <Button 
+                className="w-full bg-primary hover:bg-primary/90 text-white font-futura font-bold py-3 px-6 rounded-lg transition duration-300"
+                onClick={handleConfirmPayment}
+                disabled={isLoading || !paymentData || !paymentData.paymentInstructions}
+              >
+                {isLoading ? "Looking up payment details..." : "I have sent the bitcoin"}
+              </Button>
+            )}
           </div>
         </div>
       </DialogContent>
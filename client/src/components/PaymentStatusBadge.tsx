@@ -0,0 +1,35 @@
+import { PaymentStatus } from "@/lib/types";
+
+interface PaymentStatusBadgeProps {
+  status?: PaymentStatus | null;
+}
+
+// Tells verified honoraria apart from high fives whose payment was only promised
+export default function PaymentStatusBadge({ status }: PaymentStatusBadgeProps) {
+  switch (status) {
+    case 'paid':
+      return (
+        <span className="inline-block rounded-full bg-green-100 text-green-800 text-xs font-medium px-2 py-0.5">
+          Payment verified
+        </span>
+      );
+    case 'pending':
+      return (
+        <span className="inline-block rounded-full bg-amber-100 text-amber-800 text-xs font-medium px-2 py-0.5">
+          Payment pending
+        </span>
+      );
+    case 'expired':
+      return (
+        <span className="inline-block rounded-full bg-gray-100 text-gray-500 text-xs font-medium px-2 py-0.5">
+          Not paid
+        </span>
+      );
+    default:
+      return (
+        <span className="inline-block rounded-full bg-gray-100 text-gray-500 text-xs font-medium px-2 py-0.5">
+          Promised
+        </span>
+      );
+  }
+}
@@ -0,0 +1,86 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { PAYMENT_INSTRUCTION_LABELS } from "@shared/payment-instructions";
+import type { RecipientInterpretation } from "@shared/recipient";
+import type { RecipientPreview as RecipientPreviewData } from "../lib/types";
+
+interface RecipientPreviewProps {
+  preview: RecipientPreviewData | undefined;
+  isLoading: boolean;
+  selected: RecipientInterpretation | null; // Chosen candidate when there are several
+  onSelect: (interpretation: RecipientInterpretation) => void;
+}
+
+// Shows who the typed recipient resolves to and how they'd be paid, before the high five is sent
+export default function RecipientPreview({ preview, isLoading, selected, onSelect }: RecipientPreviewProps) {
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <div className="h-3 w-3 animate-spin rounded-full border-2 border-t-transparent border-gray-400"></div>
+        Looking up recipient...
+      </div>
+    );
+  }
+
+  if (!preview) {
+    return null;
+  }
+
+  if (!preview.candidates.length) {
+    return (
+      <p className="text-xs text-amber-600">
+        No ₿tag, Lightning Address or Nostr profile found for {preview.recipient}
+      </p>
+    );
+  }
+
+  // With several matches the sender picks one; with one there's nothing to choose
+  const isChoice = preview.candidates.length > 1;
+
+  return (
+    <div className="space-y-1">
+      {isChoice && (
+        <p className="text-xs text-gray-600">This is both a ₿tag and a Nostr identity. Who do you mean?</p>
+      )}
+      {preview.candidates.map((candidate) => {
+        const isSelected = isChoice && selected === candidate.interpretation;
+        const rail = candidate.paymentType
+          ? PAYMENT_INSTRUCTION_LABELS[candidate.paymentType]
+          : "no payment details";
+        const content = (
+          <>
+            <Avatar className="h-8 w-8">
+              {candidate.picture && <AvatarImage src={candidate.picture} alt={candidate.displayName} />}
+              <AvatarFallback className="text-xs">
+                {candidate.interpretation === 'btag' ? '₿' : candidate.displayName.substring(0, 2).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0 text-left">
+              <p className="text-sm font-medium truncate">{candidate.displayName}</p>
+              <p className={`text-xs truncate ${candidate.paymentType ? 'text-gray-500' : 'text-amber-600'}`}>
+                {candidate.interpretation === 'nostr' ? 'Nostr' : '₿tag'} · {rail}
+                {candidate.nip05 && candidate.nip05 !== candidate.displayName && ` · ${candidate.nip05}`}
+              </p>
+            </div>
+          </>
+        );
+
+        return isChoice ? (
+          <button
+            key={candidate.interpretation}
+            type="button"
+            onClick={() => onSelect(candidate.interpretation)}
+            className={`flex w-full items-center gap-2 rounded border p-2 transition-colors ${
+              isSelected ? 'border-primary bg-primary/5' : 'border-gray-200 hover:border-primary'
+            }`}
+          >
+            {content}
+          </button>
+        ) : (
+          <div key={candidate.interpretation} className="flex items-center gap-2 p-1">
+            {content}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
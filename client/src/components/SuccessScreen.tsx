@@ -1,8 +1,11 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import highFivesLogo from "@/assets/hf square.png";
 import { HighFiveDetails } from "@/lib/types";
 import { useToast } from "@/hooks/use-toast";
 import { X } from "lucide-react";
+import PaymentStatusBadge from "./PaymentStatusBadge";
+import { formatSats, formatFiat } from "@shared/honorarium";
+import { subscribeToHighFiveUpdates } from "@/lib/websocket";
 
 interface SuccessScreenProps {
   highFive: HighFiveDetails;
@@ -12,6 +15,20 @@ interface SuccessScreenProps {
 export default function SuccessScreen({ highFive, onClose }: SuccessScreenProps) {
   const { toast } = useToast();
   const toastShownRef = useRef(false);
+  const [nostrEventId, setNostrEventId] = useState(highFive.nostrEventId);
+  
+  // Show the Nostr link as soon as a queued high five gets published
+  useEffect(() => {
+    if (!highFive.id || nostrEventId) {
+      return;
+    }
+    
+    return subscribeToHighFiveUpdates({ highFiveId: highFive.id }, (update) => {
+      if (update.type === 'published') {
+        setNostrEventId(update.nostrEventId);
+      }
+    });
+  }, [highFive.id, nostrEventId]);
 
   useEffect(() => {
     // Show toast notification only once
@@ -79,10 +96,19 @@ export default function SuccessScreen({ highFive, onClose }: SuccessScreenProps)
               </div>
               
               <div className="flex flex-col sm:flex-row justify-between items-start gap-2">
-                <div>
+                <div className="flex items-center gap-2">
                   <p className="text-xs text-gray-400 font-normal font-sans">
                     {new Date().toLocaleDateString('en-US', {month: 'short', day: 'numeric'})}
                   </p>
+                  {highFive.amountSats && (
+                    <p className="text-xs font-medium text-gray-600">
+                      {formatSats(highFive.amountSats)}
+                      {highFive.fiatAmount && highFive.fiatCurrency && (
+                        <span className="text-gray-400"> (≈ {formatFiat(highFive.fiatAmount, highFive.fiatCurrency)})</span>
+                      )}
+                    </p>
+                  )}
+                  <PaymentStatusBadge status={highFive.paymentStatus} />
                 </div>
                 {highFive.sender && highFive.sender !== '<send anonymously>' && (
                   <div className="w-full sm:text-right">
@@ -94,11 +120,23 @@ export default function SuccessScreen({ highFive, onClose }: SuccessScreenProps)
                   </div>
                 )}
                 
+                {/* Let the sender know when the note will go out if it's still queued */}
+                {!nostrEventId && highFive.publicationPolicy === 'on_verify' && (
+                  <div className="pt-3 text-center w-full text-sm text-gray-500">
+                    It will be posted to Nostr once your payment is confirmed.
+                  </div>
+                )}
+                {!nostrEventId && highFive.publicationPolicy === 'delayed' && (
+                  <div className="pt-3 text-center w-full text-sm text-gray-500">
+                    It will be posted to Nostr after the delay you chose.
+                  </div>
+                )}
+                
                 {/* Nostr link if available */}
-                {highFive.nostrEventId && (
+                {nostrEventId && (
                   <div className="pt-3 text-center w-full">
                     <a 
-                      href={`https://njump.me/${highFive.nostrEventId}`}
+                      href={`https://njump.me/${nostrEventId}`}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-primary hover:text-primary/80 text-sm font-medium underline"
@@ -0,0 +1,13 @@
+import * as React from "react"
+
+// Returns the value once it has stopped changing for the given delay, e.g. to look up what's being typed
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = React.useState(value)
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs)
+    return () => clearTimeout(timer)
+  }, [value, delayMs])
+
+  return debounced
+}
@@ -1,9 +1,93 @@
+import type { PaymentInstruction, PaymentInstructionType } from "@shared/payment-instructions";
+import type { RecipientInterpretation, RecipientKind } from "@shared/recipient";
+
+export type PaymentStatus = 'pending' | 'paid' | 'expired';
+export type PublicationPolicy = 'on_verify' | 'immediate' | 'delayed';
+
 export interface HighFiveDetails {
+  id?: number;
   recipient: string;
   reason: string;
   sender?: string;
   nostrEventId?: string;
   profileName?: string;
   senderProfileName?: string;
-  recipientType?: 'btag' | 'npub';
-}
\ No newline at end of file
+  recipientType?: RecipientInterpretation;
+  paymentInstructions?: string;
+  paymentInstruction?: PaymentInstruction | null; // Parsed form of paymentInstructions
+  isZap?: boolean; // The invoice pays a NIP-57 zap of the high five note
+  lightningAddress?: string;
+  paymentStatus?: PaymentStatus | null;
+  publicationPolicy?: PublicationPolicy;
+  amountSats?: number;
+  fiatAmount?: string | null;
+  fiatCurrency?: string | null;
+}
+// One step of the server's payment resolution, returned with payment instruction lookups
+export interface ResolverTraceEntry {
+  resolver: string;
+  status: 'resolved' | 'skipped' | 'failed' | 'timeout';
+  reason?: string;
+  durationMs: number;
+}
+
+// Payment instructions as returned by the payment instruction endpoints
+export interface ResolvedRecipient {
+  interpretation: RecipientInterpretation;
+  paymentInstructions: string;
+  paymentInstruction: PaymentInstruction;
+  lightningAddress?: string;
+  profileName?: string;
+  recipientNpub?: string; // Set for Nostr identities, however they were entered
+  amountSats: number;
+  fiatAmount: string | null;
+  fiatCurrency: string | null;
+}
+
+// One identity a recipient matched, as previewed by /api/resolve-recipient
+export interface RecipientPreviewCandidate {
+  interpretation: RecipientInterpretation;
+  displayName: string;
+  picture: string | null;
+  npub: string | null;
+  nip05: string | null;
+  lightningAddress: string | null;
+  paymentType: PaymentInstructionType | null; // Null when there's no way to pay them
+}
+
+export interface RecipientPreview {
+  recipient: string;
+  kind: RecipientKind;
+  candidates: RecipientPreviewCandidate[];
+}
+
+// BOLT11 invoice as decoded by /api/decode-invoice
+export interface DecodedInvoice {
+  paymentRequest: string;
+  paymentHash: string;
+  amountSats: number | null;
+  description: string | null;
+  network: string | null;
+  createdAt: string;
+  expiresAt: string;
+  hasExpired: boolean;
+}
+
+// High five as returned by the server
+export interface ServerHighFive {
+  id: number;
+  recipient: string;
+  reason: string;
+  sender: string | null;
+  createdAt: string;
+  nostrEventId?: string;
+  profileName?: string;
+  senderProfileName?: string;
+  qrCodePath?: string;
+  seenOnRelays?: number | null; // Distinct relays that accepted the Nostr note
+  paymentStatus?: PaymentStatus | null;
+  paymentInstructions?: string | null;
+  amountSats?: number | null;
+  fiatAmount?: string | null;
+  fiatCurrency?: string | null;
+}
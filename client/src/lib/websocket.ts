@@ -1,9 +1,33 @@
+import { queryClient } from "./queryClient";
+import { ServerHighFive } from "./types";
+
 // WebSocket connection management
 let socket: WebSocket | null = null;
 let isConnecting = false;
+let isClosedManually = false;
 let reconnectTimer: number | null = null;
 let reconnectAttempts = 0;
-const MAX_RECONNECT_ATTEMPTS = 3;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Query key of the high fives list kept up to date by the live feed
+const HIGH_FIVES_QUERY_KEY = ['/api/high-fives'];
+
+// Updates the server pushes for a high five (or its invoice) we subscribed to
+export type HighFiveUpdate =
+  | { type: 'paymentReceived'; highFiveId: number; invoice: string | null; paidAt: string | null }
+  | { type: 'expired'; highFiveId: number; invoice: string | null }
+  | { type: 'published'; highFiveId: number; nostrEventId: string; seenOnRelays: number | null };
+
+export type SubscriptionTarget = { highFiveId: number } | { invoice: string };
+
+type HighFiveUpdateListener = (update: HighFiveUpdate) => void;
+
+// Listeners keyed by "highFive:<id>" or "invoice:<payment request>"
+const updateListeners = new Map<string, { target: SubscriptionTarget; listeners: Set<HighFiveUpdateListener> }>();
+
+function subscriptionKey(target: SubscriptionTarget): string {
+  return 'highFiveId' in target ? `highFive:${target.highFiveId}` : `invoice:${target.invoice}`;
+}
 
 // Setup the WebSocket connection with proper error handling
 export function setupWebSocket(): WebSocket | null {
@@ -28,6 +52,7 @@ export function setupWebSocket(): WebSocket | null {
   
   try {
     isConnecting = true;
+    isClosedManually = false;
     
     // Only create WebSocket if we have a valid host
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
@@ -54,6 +79,17 @@ export function setupWebSocket(): WebSocket | null {
         window.clearTimeout(reconnectTimer);
         reconnectTimer = null;
       }
+      
+      // (Re)subscribe to everything we're watching, e.g. after a reconnect
+      updateListeners.forEach(({ target }) => {
+        socket?.send(JSON.stringify({ type: 'subscribe', ...target }));
+      });
+      
+      // Ask for any high fives created while we were disconnected
+      const lastSeenId = getLastSeenHighFiveId();
+      if (lastSeenId !== null) {
+        socket?.send(JSON.stringify({ type: 'catchUp', sinceId: lastSeenId }));
+      }
     };
     
     // Handle messages
@@ -73,36 +109,33 @@ export function setupWebSocket(): WebSocket | null {
     };
     
     // Connection closed
-    socket.onclose = (event) => {
-      const wasConnecting = isConnecting;
+    socket.onclose = () => {
       isConnecting = false;
       
       // Set socket to null to allow reconnection attempts
       socket = null;
       
-      // Only attempt to reconnect if we're not in HMR and haven't exceeded attempts
-      if (reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
-        // Increment attempt counter
-        reconnectAttempts++;
-        
-        // Clear any previous reconnect timer
-        if (reconnectTimer !== null) {
-          window.clearTimeout(reconnectTimer);
-        }
-        
-        // Use exponential backoff for reconnection
-        const delay = Math.min(1000 * Math.pow(2, reconnectAttempts - 1), 10000);
-        
-        // Set a timer to reconnect
-        reconnectTimer = window.setTimeout(() => {
-          reconnectTimer = null;
-          setupWebSocket();
-        }, delay);
-      } else if (wasConnecting) {
-        // If this was a failed initial connection attempt,
-        // reset the counter to allow future attempts
-        reconnectAttempts = 0;
+      // Don't reconnect if we closed the connection ourselves
+      if (isClosedManually) {
+        return;
+      }
+      
+      // Increment attempt counter
+      reconnectAttempts++;
+      
+      // Clear any previous reconnect timer
+      if (reconnectTimer !== null) {
+        window.clearTimeout(reconnectTimer);
       }
+      
+      // Keep trying with exponential backoff so the live feed recovers
+      const delay = Math.min(1000 * Math.pow(2, reconnectAttempts - 1), MAX_RECONNECT_DELAY_MS);
+      
+      // Set a timer to reconnect
+      reconnectTimer = window.setTimeout(() => {
+        reconnectTimer = null;
+        setupWebSocket();
+      }, delay);
     };
     
     return socket;
@@ -117,18 +150,105 @@ function handleWebSocketMessage(data: any) {
   // Example of handling different message types
   switch (data.type) {
     case 'highFiveCreated':
-      console.log('New High Five created:', data.highFive);
-      // You could update state here, e.g., refreshing lists, showing notifications
+      mergeHighFives([data.highFive]);
+      break;
+    case 'highFivesSince':
+      mergeHighFives(data.highFives);
+      break;
+    case 'highFiveRemoved':
+      removeHighFive(data.highFiveId);
       break;
     case 'paymentReceived':
-      console.log('Payment received:', data.payment);
-      // Handle payment confirmation
+    case 'expired':
+    case 'published':
+      notifyUpdateListeners(data as HighFiveUpdate);
+      break;
+    case 'welcome':
+    case 'confirmation':
+    case 'subscribed':
       break;
     default:
       console.log('Unhandled message type:', data.type);
   }
 }
 
+// Highest high five id in the cached list, used to catch up after a reconnect
+function getLastSeenHighFiveId(): number | null {
+  const highFives = queryClient.getQueryData<ServerHighFive[]>(HIGH_FIVES_QUERY_KEY);
+  if (!highFives || highFives.length === 0) {
+    return null;
+  }
+  return Math.max(...highFives.map((highFive) => highFive.id));
+}
+
+// Add pushed high fives to the cached list without a refetch
+function mergeHighFives(incoming: ServerHighFive[]) {
+  queryClient.setQueryData<ServerHighFive[]>(HIGH_FIVES_QUERY_KEY, (current) => {
+    // The list hasn't been loaded yet; it fetches everything when first shown
+    if (!current) {
+      return current;
+    }
+    
+    const knownIds = new Set(current.map((highFive) => highFive.id));
+    const fresh = incoming.filter((highFive) => !knownIds.has(highFive.id));
+    return fresh.length ? [...fresh.reverse(), ...current] : current;
+  });
+}
+
+// Drop a high five the server abandoned from the cached list, as a refetch would
+function removeHighFive(highFiveId: number) {
+  queryClient.setQueryData<ServerHighFive[]>(HIGH_FIVES_QUERY_KEY, (current) =>
+    current?.filter((highFive) => highFive.id !== highFiveId)
+  );
+}
+
+// Pass a pushed update to everyone watching its high five or invoice
+function notifyUpdateListeners(update: HighFiveUpdate) {
+  const keys = [subscriptionKey({ highFiveId: update.highFiveId })];
+  if (update.type !== 'published' && update.invoice) {
+    keys.push(subscriptionKey({ invoice: update.invoice }));
+  }
+  
+  keys.forEach((key) => {
+    updateListeners.get(key)?.listeners.forEach((listener) => listener(update));
+  });
+}
+
+/**
+ * Watch a high five or invoice for payment and publication updates
+ * @returns A function that stops watching
+ */
+export function subscribeToHighFiveUpdates(target: SubscriptionTarget, listener: HighFiveUpdateListener): () => void {
+  const key = subscriptionKey(target);
+  let entry = updateListeners.get(key);
+  
+  if (!entry) {
+    entry = { target, listeners: new Set() };
+    updateListeners.set(key, entry);
+    
+    // If we're not connected yet, the subscription is sent once the socket opens
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'subscribe', ...target }));
+    } else {
+      setupWebSocket();
+    }
+  }
+  entry.listeners.add(listener);
+  
+  return () => {
+    const current = updateListeners.get(key);
+    if (!current) return;
+    
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0) {
+      updateListeners.delete(key);
+      if (socket && socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: 'unsubscribe', ...target }));
+      }
+    }
+  };
+}
+
 // Function to send messages over WebSocket
 export function sendWebSocketMessage(message: any) {
   if (socket && socket.readyState === WebSocket.OPEN) {
@@ -144,6 +264,11 @@ export function sendWebSocketMessage(message: any) {
 
 // Clean up WebSocket connection
 export function closeWebSocket() {
+  isClosedManually = true;
+  if (reconnectTimer !== null) {
+    window.clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
   if (socket) {
     socket.close();
     socket = null;
@@ -4,6 +4,7 @@ import HighFivesList from "@/components/HighFivesList";
 import Notification from "@/components/Notification";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import bitcoinHighFiveImage from "../assets/bitcoin-high-five.png";
+import { DEFAULT_HONORARIUM_SATS, formatSats } from "@shared/honorarium";
 
 export default function Home() {
   // Check if there's a saved tab preference in sessionStorage
@@ -31,7 +32,7 @@ export default function Home() {
             {/* Attractive suggestion text box */}
             <div className="mt-6 mb-6 bg-orange-100 border border-orange-200 rounded-lg p-4 text-center shadow-sm">
               <p className="text-amber-800 font-medium">
-                We think <span className="font-bold">₿21,000</span> is a nice round number to celebrate someone with, don't you?
+                We think <span className="font-bold">{formatSats(DEFAULT_HONORARIUM_SATS)}</span> is a nice round number to celebrate someone with, don't you?
               </p>
             </div>
             
@@ -0,0 +1,5 @@
+ALTER TABLE "high_fives" ADD COLUMN "payment_request" text;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "payment_verify_url" text;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "payment_status" text;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "payment_preimage" text;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "paid_at" text;
\ No newline at end of file
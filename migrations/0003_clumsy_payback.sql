@@ -0,0 +1,5 @@
+ALTER TABLE "high_fives" ADD COLUMN "payment_instructions" text;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "lightning_address" text;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "publication_policy" text;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "publish_after" text;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "publication_state" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "high_fives" ADD COLUMN "amount_sats" integer;
\ No newline at end of file
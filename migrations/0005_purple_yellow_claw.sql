@@ -0,0 +1,2 @@
+ALTER TABLE "high_fives" ADD COLUMN "fiat_amount" text;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "fiat_currency" text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "high_fives" ADD COLUMN "nostr_event" text;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "zap_request" text;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "zapper_pubkey" text;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "zap_receipt_id" text;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE "profile_cache" (
+	"pubkey" text PRIMARY KEY NOT NULL,
+	"event" text,
+	"event_created_at" integer,
+	"fetched_at" text NOT NULL
+);
@@ -0,0 +1,6 @@
+CREATE TABLE "nostr_relays" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"url" text NOT NULL,
+	"purpose" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL
+);
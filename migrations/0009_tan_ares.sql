@@ -0,0 +1,12 @@
+CREATE TABLE "high_five_publications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"high_five_id" integer NOT NULL,
+	"event_id" text NOT NULL,
+	"relay" text NOT NULL,
+	"status" text NOT NULL,
+	"message" text,
+	"latency_ms" integer,
+	"attempted_at" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "seen_on_relays" integer;
\ No newline at end of file
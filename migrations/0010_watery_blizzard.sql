@@ -0,0 +1,2 @@
+ALTER TABLE "high_fives" ADD COLUMN "publish_attempts" integer;--> statement-breakpoint
+ALTER TABLE "high_fives" ADD COLUMN "next_publish_attempt_at" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "high_fives" ADD COLUMN "nostr_identifier" text;
\ No newline at end of file
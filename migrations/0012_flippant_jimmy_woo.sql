@@ -0,0 +1 @@
+ALTER TABLE "high_fives" ADD COLUMN "sender_confirmed_at" text;
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeBolt11Invoice } from './bolt11';
+
+// Invoices from the BOLT11 test vectors
+const DONATION = 'lnbc1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq9qrsgq357wnc5r2ueh7ck6q93dj32dlqnls087fxdwk8qakdyafkq3yap9us6v52vjjsrvywa6rt52cm9r9zqt8r2t7mlcwspyetp5h2tztugp9lfyql';
+const COFFEE = 'lnbc2500u1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpu9qrsgquk0rl77nj30yxdy8j9vdx85fkpmdla2087ne0xh8nhedh8w27kyke0lp53ut353s06fv3qfegext0eh0ymjpf39tuven09sam30g4vgpfna3rh';
+const PAYMENT_HASH = '0001020304050607080900010203040506070809000102030405060708090102';
+
+test('decodes an invoice with an amount and an expiry', () => {
+  assert.deepEqual(decodeBolt11Invoice(COFFEE), {
+    paymentRequest: COFFEE,
+    paymentHash: PAYMENT_HASH,
+    amountSats: 250000,
+    description: '1 cup coffee',
+    network: 'mainnet',
+    createdAt: '2017-06-01T10:57:38.000Z',
+    expiresAt: '2017-06-01T10:58:38.000Z',
+    hasExpired: true
+  });
+});
+
+test('decodes an any-amount invoice, which expires after an hour by default', () => {
+  const invoice = decodeBolt11Invoice(DONATION);
+  assert.equal(invoice?.amountSats, null);
+  assert.equal(invoice?.description, 'Please consider supporting this project');
+  assert.equal(invoice?.expiresAt, '2017-06-01T11:57:38.000Z');
+});
+
+test('accepts lightning: prefixes and upper case invoices', () => {
+  assert.equal(decodeBolt11Invoice(`lightning:${COFFEE}`)?.paymentRequest, COFFEE);
+  assert.equal(decodeBolt11Invoice(COFFEE.toUpperCase())?.paymentRequest, COFFEE);
+});
+
+test('returns null for anything that is not a valid BOLT11 invoice', () => {
+  // One character changed, so the checksum no longer matches
+  assert.equal(decodeBolt11Invoice(COFFEE.slice(0, -1) + 'x'), null);
+  assert.equal(decodeBolt11Invoice('lno1pgx9getnwss8vetrw3hhyuckyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg'), null);
+  assert.equal(decodeBolt11Invoice('alice@example.com'), null);
+});
@@ -0,0 +1,61 @@
+import { Invoice } from '@getalby/lightning-tools';
+import { parsePaymentInstruction } from '@shared/payment-instructions';
+
+// BOLT11: invoices without an expiry field expire after an hour
+const DEFAULT_EXPIRY_SECONDS = 3600;
+
+// Networks by human readable prefix, longest first so "lnbcrt" isn't read as "lnbc"
+const NETWORK_PREFIXES: [string, string][] = [
+  ['lnbcrt', 'regtest'],
+  ['lntbs', 'signet'],
+  ['lnbc', 'mainnet'],
+  ['lntb', 'testnet'],
+  ['lnsb', 'simnet']
+];
+
+// The parts of a BOLT11 invoice the client needs to show
+export interface DecodedBolt11Invoice {
+  paymentRequest: string;
+  paymentHash: string;
+  amountSats: number | null; // null for "any amount" invoices
+  description: string | null;
+  network: string | null;
+  createdAt: string;
+  expiresAt: string;
+  hasExpired: boolean;
+}
+
+/**
+ * Decode a BOLT11 invoice
+ * @param paymentRequest The invoice, optionally prefixed with "lightning:"
+ * @returns The decoded invoice, or null if it isn't a valid BOLT11 invoice
+ */
+export function decodeBolt11Invoice(paymentRequest: string): DecodedBolt11Invoice | null {
+  const instruction = parsePaymentInstruction(paymentRequest);
+  if (instruction?.type !== 'bolt11') {
+    return null;
+  }
+
+  try {
+    const pr = instruction.invoice.toLowerCase();
+    const invoice = new Invoice({ pr });
+
+    const expiresAt = invoice.expiryDate
+      ?? new Date(invoice.createdDate.getTime() + DEFAULT_EXPIRY_SECONDS * 1000);
+    const network = NETWORK_PREFIXES.find(([prefix]) => pr.startsWith(prefix))?.[1] ?? null;
+
+    return {
+      paymentRequest: pr,
+      paymentHash: invoice.paymentHash,
+      amountSats: invoice.satoshi > 0 ? invoice.satoshi : null,
+      description: invoice.description,
+      network,
+      createdAt: invoice.createdDate.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      hasExpired: expiresAt.getTime() <= Date.now()
+    };
+  } catch (error) {
+    console.error('Error decoding BOLT11 invoice:', error);
+    return null;
+  }
+}
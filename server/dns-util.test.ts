@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkBip353Uri } from './dns-util';
+
+// Offers from the BOLT12 test vectors: one for bitcoin, one for testnet, and one that expires at the end of 2034
+const MAINNET_OFFER = 'lno1pgx9getnwss8vetrw3hhyuckyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg';
+const TESTNET_OFFER = 'lno1qgsyxjtl6luzd9t3pr62xr7eemp6awnejusgf6gw45q75vcfqqqqqqq2p32x2um5ypmx2cm5dae8x93pqthvwfzadd7jejes8q9lhc4rvjxd022zv5l44g6qah82ru5rdpnpj';
+const EXPIRING_OFFER = 'lno1pgx9getnwss8vetrw3hhyucwq3ay997czcss9mk8y3wkklfvevcrszlmu23kfrxh49px20665dqwmn4p72pksese';
+const AFTER_EXPIRY = Date.UTC(2036, 0, 1);
+const ADDRESS = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+
+test('returns a usable offer with the record', () => {
+  const result = checkBip353Uri(`bitcoin:${ADDRESS}?lno=${MAINNET_OFFER}`, 'mainnet');
+  assert.equal(result.status, 'found');
+  assert.equal(result.status === 'found' && result.uri, `bitcoin:${ADDRESS}?lno=${MAINNET_OFFER}`);
+  assert.equal(result.status === 'found' && result.offer?.description, 'Test vectors');
+});
+
+test('falls back to the on-chain address when the offer is for another chain', () => {
+  const result = checkBip353Uri(`bitcoin:${ADDRESS}?lno=${TESTNET_OFFER}`, 'mainnet');
+  assert.equal(result.status, 'found');
+  assert.equal(result.status === 'found' && result.uri, `bitcoin:${ADDRESS}`);
+  assert.equal(result.status === 'found' && result.parsed.lno, undefined);
+  assert.equal(result.status === 'found' && result.offer, undefined);
+});
+
+test('falls back to the other payment methods when the offer has expired or is malformed', () => {
+  const expired = checkBip353Uri(`bitcoin:${ADDRESS}?lno=${EXPIRING_OFFER}&label=Alice`, 'mainnet', AFTER_EXPIRY);
+  assert.equal(expired.status === 'found' && expired.uri, `bitcoin:${ADDRESS}?label=Alice`);
+
+  const malformed = checkBip353Uri(`bitcoin:${ADDRESS}?lno=lno1qqqq`, 'mainnet');
+  assert.equal(malformed.status === 'found' && malformed.uri, `bitcoin:${ADDRESS}`);
+});
+
+test('rejects a record whose only payment method is an unusable offer', () => {
+  assert.deepEqual(checkBip353Uri(`bitcoin:?lno=${TESTNET_OFFER}`, 'mainnet'), {
+    status: 'rejected',
+    reason: 'BOLT12 offer is for testnet, not mainnet'
+  });
+  const expired = checkBip353Uri(`bitcoin:?lno=${EXPIRING_OFFER}`, 'mainnet', AFTER_EXPIRY);
+  assert.equal(expired.status === 'rejected' && expired.reason, 'BOLT12 offer expired at 2034-12-31T13:30:00.000Z');
+});
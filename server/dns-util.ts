@@ -1,79 +1,117 @@
-import * as dns from 'dns';
-import { promisify } from 'util';
+import type { TxtAnswer } from 'dns-packet';
+import { encodeBip21, parseBip21, type Bip21Uri } from '@shared/bip21';
+import { decodeBolt12Offer, isBolt12OfferExpired, isBolt12OfferForNetwork, type BitcoinNetwork, type Bolt12Offer } from '@shared/bolt12';
+import { parsePaymentInstructions, isPaymentInstructionForNetwork } from '@shared/payment-instructions';
+import { resolveWithDnssec, type DnssecOptions } from './dnssec';
 
-const resolveTxt = promisify(dns.resolveTxt);
+// Network offers and addresses must be payable on; set BITCOIN_NETWORK for test deployments
+const BITCOIN_NETWORK = (process.env.BITCOIN_NETWORK || 'mainnet') as BitcoinNetwork;
+
+// Outcome of a BIP-353 lookup
+export type Bip353Result =
+  | { status: 'found'; uri: string; parsed: Bip21Uri; offer?: Bolt12Offer }
+  | { status: 'not_found' }
+  | { status: 'rejected'; reason: string };
 
 /**
- * Look up payment instructions for a Bitcoin BIP-353 btag
- * Format: user.user._bitcoin-payment.domain
+ * Concatenate the strings of a TXT record, which may be split into 255-byte chunks
  */
-export async function lookupPaymentInstructions(btag: string): Promise<string | null> {
-  try {
-    // Extract user and domain from the btag
-    // Expected format is something like "user@domain.com" where we need user.user._bitcoin-payment.domain
-    if (!btag.includes('@')) {
-      console.error('Invalid btag format. Expected user@domain format');
-      return null;
-    }
+function joinTxtRecord(record: TxtAnswer): string {
+  const chunks = Array.isArray(record.data) ? record.data : [record.data];
+  return chunks.map((chunk) => (typeof chunk === 'string' ? chunk : chunk.toString('utf8'))).join('');
+}
 
-    const [user, domain] = btag.split('@');
-    if (!user || !domain) {
-      console.error('Invalid btag format. Could not extract user or domain.');
-      return null;
-    }
+/**
+ * Resolve a BIP-353 human readable name to its payment instructions.
+ * The TXT record must be DNSSEC-signed all the way from the root, and there must be
+ * exactly one bitcoin: URI at the name.
+ * @param address The name, e.g. "alice@example.com" or "₿alice@example.com"
+ * @param options DNS server and trust anchors to validate with
+ * @returns The URI and its parsed form, not_found, or rejected with the reason
+ */
+export async function resolveBip353(address: string, options: DnssecOptions = {}): Promise<Bip353Result> {
+  // Extract user and domain from the btag
+  const btag = address.trim().replace(/^₿/, '').toLowerCase();
+  const [user, domain, ...extra] = btag.split('@');
+  if (!user || !domain || extra.length) {
+    return { status: 'rejected', reason: 'Invalid btag format. Expected user@domain format' };
+  }
 
-    // Construct DNS query according to BIP-353
-    const dnsRecord = `${user}.user._bitcoin-payment.${domain}`;
-    console.log(`Looking up TXT record for: ${dnsRecord}`);
+  // Construct DNS query according to BIP-353
+  const dnsRecord = `${user}.user._bitcoin-payment.${domain}`;
+  console.log(`Looking up TXT record for: ${dnsRecord}`);
 
-    // Set a timeout for DNS resolution
-    const dnsPromise = resolveTxt(dnsRecord);
-    
-    // Create a timeout promise that rejects after 5 seconds
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('DNS lookup timed out after 5 seconds')), 5000);
-    });
-    
-    // Race the DNS resolution against the timeout
-    const txtRecords = await Promise.race([dnsPromise, timeoutPromise]) as string[][];
-    
-    // BIP-353 payment instructions are stored in a single TXT record
-    if (txtRecords && txtRecords.length > 0) {
-      // TXT records are arrays of strings, join them together
-      const record = txtRecords[0].join('');
-      
-      // Per BIP-353, payment instructions should start with lno...
-      if (record.startsWith('lno')) {
-        console.log('Found valid payment instruction (direct format)');
-        return record;
-      } 
-      // Check for bitcoin URI format (bitcoin:?lno=...)
-      else if (record.startsWith('bitcoin:') && record.includes('lno=')) {
-        console.log('Found payment instruction in bitcoin URI format');
-        // Return the full bitcoin: URI instead of just extracting the lno parameter
-        console.log('Returning full bitcoin URI:', record);
-        return record;
-      }
-      
-      console.log('Found TXT record but could not extract a valid payment instruction');
-      console.log('Record content:', record);
-    }
-    
-    console.log('No payment instructions found');
-    return null;
-  } catch (error) {
-    console.error('Error looking up payment instructions:', error);
-    
-    // Check for specific error types and provide more detailed logging
-    if (error instanceof Error) {
-      if (error.message.includes('ENOTFOUND') || error.message.includes('SERVFAIL')) {
-        console.error('DNS server could not be reached or domain does not exist');
-      } else if (error.message.includes('timed out')) {
-        console.error('DNS lookup timed out - services might be temporarily unavailable');
-      }
+  const result = await resolveWithDnssec(dnsRecord, 'TXT', options);
+  if (result.status === 'not_found') {
+    return { status: 'not_found' };
+  }
+  if (result.status === 'bogus') {
+    return { status: 'rejected', reason: `DNSSEC validation failed: ${result.reason}` };
+  }
+
+  // Other TXT records may live at the same name; only bitcoin: URIs count
+  const uris = (result.records as TxtAnswer[])
+    .map(joinTxtRecord)
+    .filter((record) => /^bitcoin:/i.test(record));
+
+  if (uris.length === 0) {
+    return { status: 'not_found' };
+  }
+  if (uris.length > 1) {
+    return { status: 'rejected', reason: `Found ${uris.length} conflicting bitcoin: TXT records` };
+  }
+
+  return checkBip353Uri(uris[0]);
+}
+
+/**
+ * Check the bitcoin: URI of a BIP-353 record for payment methods usable on our network.
+ * An offer the sender couldn't pay (malformed, expired or for another chain) is dropped,
+ * so any on-chain or silent payment addresses next to it can still be used.
+ * @param uri The URI from the TXT record
+ * @param network Network the payment methods must be for
+ * @param now Current time in milliseconds, for offer expiry
+ * @returns The URI without unusable offers, or rejected if no payment method is left
+ */
+export function checkBip353Uri(uri: string, network: BitcoinNetwork = BITCOIN_NETWORK, now: number = Date.now()): Bip353Result {
+  const parsed = parseBip21(uri);
+  if (!parsed) {
+    return { status: 'rejected', reason: `Invalid BIP-21 URI: ${uri}` };
+  }
+
+  let offer: Bolt12Offer | undefined;
+  let offerProblem: string | null = null;
+  if (parsed.lno) {
+    const decoded = decodeBolt12Offer(parsed.lno);
+    if (!decoded) {
+      offerProblem = 'Invalid BOLT12 offer';
+    } else if (isBolt12OfferExpired(decoded, now)) {
+      offerProblem = `BOLT12 offer expired at ${new Date(decoded.absoluteExpiry! * 1000).toISOString()}`;
+    } else if (!isBolt12OfferForNetwork(decoded, network)) {
+      offerProblem = `BOLT12 offer is for ${decoded.chains.join(', ')}, not ${network}`;
+    } else {
+      offer = decoded;
     }
-    
-    // In a real production environment, we would implement retry logic here
-    return null;
   }
-}
\ No newline at end of file
+
+  let usableUri = uri;
+  if (offerProblem) {
+    console.log(`Ignoring the offer in ${uri}: ${offerProblem}`);
+    delete parsed.lno;
+    delete parsed.params.lno;
+    usableUri = encodeBip21(parsed);
+  }
+
+  // Records may offer on-chain or silent payment addresses instead of Lightning,
+  // but at least one payment method has to be usable on our network
+  const usable = parsePaymentInstructions(usableUri).filter((instruction) =>
+    isPaymentInstructionForNetwork(instruction, network)
+  );
+  if (usable.length === 0) {
+    return { status: 'rejected', reason: offerProblem ?? `No payment method for ${network} in ${uri}` };
+  }
+
+  return offer
+    ? { status: 'found', uri: usableUri, parsed, offer }
+    : { status: 'found', uri: usableUri, parsed };
+}
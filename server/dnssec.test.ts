@@ -0,0 +1,195 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import dgram from 'dgram';
+import crypto from 'crypto';
+import * as dnsPacket from 'dns-packet';
+import type { Answer, DnskeyData, DecodedPacket } from 'dns-packet';
+import { base32hex } from '@scure/base';
+import { computeKeyTag, resolveWithDnssec, type DnssecOptions } from './dnssec';
+
+// A stub DNS server with a signed root, an NSEC-signed "example" zone and an NSEC3-signed "hashed" zone
+
+const TYPE_CODES: Record<string, number> = { TXT: 16, DS: 43, NSEC: 47, DNSKEY: 48, NSEC3: 50 };
+const NOW = Math.floor(Date.now() / 1000);
+const NSEC3_PARAMS = { algorithm: 1, flags: 0, iterations: 0, salt: Buffer.from('ab', 'hex') };
+
+type ZoneKey = { privateKey: crypto.KeyObject; dnskey: DnskeyData };
+type StubResponse = { rcode?: 'NOERROR' | 'NXDOMAIN'; answers?: Answer[]; authorities?: Answer[] };
+
+const responses = new Map<string, StubResponse>();
+// alice's own NSEC record, for an attacker to replay in place of her TXT record
+let aliceDenial: StubResponse;
+let server: dgram.Socket;
+let options: DnssecOptions;
+
+function createZoneKey(): ZoneKey {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const { x } = publicKey.export({ format: 'jwk' });
+  return { privateKey, dnskey: { flags: 257, algorithm: 15, key: Buffer.from(x!, 'base64url') } };
+}
+
+function dsDigest(zone: string, key: ZoneKey): Buffer {
+  return crypto.createHash('sha256')
+    .update(dnsPacket.name.encode(zone || '.'))
+    .update(dnsPacket.dnskey.encode(key.dnskey).subarray(2))
+    .digest();
+}
+
+// The RRset with an RRSIG by the zone key over it
+function signed(owner: string, type: string, datas: unknown[], zone: string, key: ZoneKey): Answer[] {
+  const rrsig = {
+    typeCovered: type,
+    algorithm: 15,
+    labels: owner ? owner.split('.').length : 0,
+    originalTTL: 300,
+    expiration: NOW + 86400,
+    inception: NOW - 86400,
+    keyTag: computeKeyTag(key.dnskey),
+    signersName: zone || '.',
+    signature: Buffer.alloc(0)
+  };
+
+  const rrs = datas
+    .map((data) => dnsPacket.record(type).encode(data).subarray(2))
+    .sort(Buffer.compare)
+    .map((rdata) => {
+      const header = Buffer.alloc(10);
+      header.writeUInt16BE(TYPE_CODES[type], 0);
+      header.writeUInt16BE(1, 2);
+      header.writeUInt32BE(300, 4);
+      header.writeUInt16BE(rdata.length, 8);
+      return Buffer.concat([dnsPacket.name.encode(owner || '.'), header, rdata]);
+    });
+  const signature = crypto.sign(null, Buffer.concat([dnsPacket.rrsig.encode(rrsig).subarray(2), ...rrs]), key.privateKey);
+
+  return [
+    ...datas.map((data) => ({ name: owner || '.', type, ttl: 300, data } as Answer)),
+    { name: owner || '.', type: 'RRSIG', ttl: 300, data: { ...rrsig, signature } } as Answer
+  ];
+}
+
+function nsec3Hash(name: string): Buffer {
+  return crypto.createHash('sha1').update(dnsPacket.name.encode(name)).update(NSEC3_PARAMS.salt).digest();
+}
+
+function buildZones() {
+  const root = createZoneKey();
+  const example = createZoneKey();
+  const hashed = createZoneKey();
+
+  options = {
+    server: { host: '127.0.0.1', port: (server.address() as { port: number }).port },
+    trustAnchors: [{ keyTag: computeKeyTag(root.dnskey), algorithm: 15, digestType: 2, digest: dsDigest('', root).toString('hex') }],
+    timeoutMs: 2000
+  };
+
+  const ds = (zone: string, key: ZoneKey) => ({ keyTag: computeKeyTag(key.dnskey), algorithm: 15, digestType: 2, digest: dsDigest(zone, key) });
+  responses.set('|DNSKEY', { answers: signed('', 'DNSKEY', [root.dnskey], '', root) });
+  responses.set('example|DS', { answers: signed('example', 'DS', [ds('example', example)], '', root) });
+  responses.set('hashed|DS', { answers: signed('hashed', 'DS', [ds('hashed', hashed)], '', root) });
+  responses.set('example|DNSKEY', { answers: signed('example', 'DNSKEY', [example.dnskey], 'example', example) });
+  responses.set('hashed|DNSKEY', { answers: signed('hashed', 'DNSKEY', [hashed.dnskey], 'hashed', hashed) });
+
+  // example: the apex and alice, chained with NSEC
+  const alice = 'alice.user._bitcoin-payment.example';
+  const aliceTxt = 'bitcoin:bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+  const nsecs = [
+    ...signed('example', 'NSEC', [{ nextDomain: alice, rrtypes: ['DNSKEY', 'RRSIG', 'NSEC'] }], 'example', example),
+    ...signed(alice, 'NSEC', [{ nextDomain: 'example', rrtypes: ['TXT', 'RRSIG', 'NSEC'] }], 'example', example)
+  ];
+  responses.set(`${alice}|TXT`, { answers: signed(alice, 'TXT', [aliceTxt], 'example', example) });
+  responses.set('bob.user._bitcoin-payment.example|TXT', { rcode: 'NXDOMAIN', authorities: nsecs });
+  // An attacker stripped the answer and sent nothing to prove it doesn't exist
+  responses.set('carol.user._bitcoin-payment.example|TXT', { rcode: 'NXDOMAIN' });
+  // An attacker swapped in their own payment instructions under alice's signature
+  const forged = signed('dave.user._bitcoin-payment.example', 'TXT', [aliceTxt], 'example', example);
+  (forged[0] as { data: unknown }).data = 'bitcoin:?lno=lno1attacker';
+  responses.set('dave.user._bitcoin-payment.example|TXT', { answers: forged });
+  aliceDenial = { authorities: nsecs.slice(2) };
+
+  // hashed: the apex, two empty non-terminals and alice, chained with NSEC3
+  const names = ['hashed', '_bitcoin-payment.hashed', 'user._bitcoin-payment.hashed', 'alice.user._bitcoin-payment.hashed'];
+  const types: Record<string, string[]> = { hashed: ['DNSKEY', 'NSEC3PARAM', 'RRSIG'], 'alice.user._bitcoin-payment.hashed': ['TXT', 'RRSIG'] };
+  const chain = names
+    .map((name) => ({ name, hash: nsec3Hash(name) }))
+    .sort((a, b) => Buffer.compare(a.hash, b.hash));
+  const nsec3s = chain.flatMap(({ name, hash }, index) => {
+    const owner = `${base32hex.encode(hash).toLowerCase()}.hashed`;
+    const data = { ...NSEC3_PARAMS, nextDomain: chain[(index + 1) % chain.length].hash, rrtypes: types[name] ?? [] };
+    return signed(owner, 'NSEC3', [data], 'hashed', hashed);
+  });
+  responses.set('bob.user._bitcoin-payment.hashed|TXT', { rcode: 'NXDOMAIN', authorities: nsec3s });
+  // Without the records proving user._bitcoin-payment.hashed exists there's no closest encloser
+  const withoutEncloser = chain.flatMap(({ name }, index) => name === 'user._bitcoin-payment.hashed' ? [] : nsec3s.slice(index * 2, index * 2 + 2));
+  responses.set('frank.user._bitcoin-payment.hashed|TXT', { rcode: 'NXDOMAIN', authorities: withoutEncloser });
+}
+
+before(async () => {
+  server = dgram.createSocket('udp4');
+  server.on('message', (message, remote) => {
+    const query = dnsPacket.decode(message) as DecodedPacket;
+    const question = query.questions![0];
+    const name = question.name === '.' ? '' : question.name.toLowerCase();
+    const response = responses.get(`${name}|${question.type}`) ?? { rcode: 'NXDOMAIN' };
+    const reply = dnsPacket.encode({
+      type: 'response',
+      id: query.id,
+      flags: response.rcode === 'NXDOMAIN' ? 3 : 0,
+      questions: query.questions,
+      answers: response.answers ?? [],
+      authorities: response.authorities ?? []
+    });
+    server.send(reply, remote.port, remote.address);
+  });
+  await new Promise<void>((resolve) => server.bind(0, '127.0.0.1', resolve));
+  buildZones();
+});
+
+after(() => {
+  server.close();
+});
+
+test('returns records signed all the way from the trust anchor as secure', async () => {
+  const result = await resolveWithDnssec('alice.user._bitcoin-payment.example', 'TXT', options);
+  assert.equal(result.status, 'secure');
+  assert.equal(result.status === 'secure' && (result.records[0] as { data: Buffer[] }).data.toString(), 'bitcoin:bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq');
+});
+
+test('returns not_found when signed NSEC records prove the name does not exist', async () => {
+  const result = await resolveWithDnssec('bob.user._bitcoin-payment.example', 'TXT', options);
+  assert.deepEqual(result, { status: 'not_found' });
+});
+
+test('returns not_found when signed NSEC3 records prove the name does not exist', async () => {
+  const result = await resolveWithDnssec('bob.user._bitcoin-payment.hashed', 'TXT', options);
+  assert.deepEqual(result, { status: 'not_found' });
+});
+
+test('returns bogus when the answer is missing and nothing proves it does not exist', async () => {
+  const result = await resolveWithDnssec('carol.user._bitcoin-payment.example', 'TXT', options);
+  assert.equal(result.status, 'bogus');
+  assert.match(result.status === 'bogus' ? result.reason : '', /no signed NSEC or NSEC3 records/);
+});
+
+test('returns bogus when a record does not match its signature', async () => {
+  const result = await resolveWithDnssec('dave.user._bitcoin-payment.example', 'TXT', options);
+  assert.equal(result.status, 'bogus');
+  assert.match(result.status === 'bogus' ? result.reason : '', /no valid signature/);
+});
+
+test('returns bogus when the NSEC record shows the name has the requested type', async () => {
+  responses.set('alice.user._bitcoin-payment.example|TXT', aliceDenial);
+  try {
+    const result = await resolveWithDnssec('alice.user._bitcoin-payment.example', 'TXT', options);
+    assert.equal(result.status, 'bogus');
+    assert.match(result.status === 'bogus' ? result.reason : '', /NSEC record shows .* has TXT records/);
+  } finally {
+    buildZones();
+  }
+});
+
+test('returns bogus when NSEC3 records leave out the closest encloser', async () => {
+  const result = await resolveWithDnssec('frank.user._bitcoin-payment.hashed', 'TXT', options);
+  assert.equal(result.status, 'bogus');
+  assert.match(result.status === 'bogus' ? result.reason : '', /no NSEC3 record covers user\._bitcoin-payment\.hashed/);
+});
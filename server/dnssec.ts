@@ -0,0 +1,769 @@
+import dgram from 'dgram';
+import net from 'net';
+import crypto from 'crypto';
+import * as dnsPacket from 'dns-packet';
+import type { Answer, DecodedPacket, DnskeyAnswer, DnskeyData, DSAnswer, DsData, Nsec3Data, NsecData, RecordType, RrsigAnswer, RrsigData, StringAnswer } from 'dns-packet';
+import { base32hex } from '@scure/base';
+
+// dns-packet exports per-type encoders at runtime that its typings leave out
+declare module 'dns-packet' {
+  interface RecordEncoder {
+    encode(data: unknown): Buffer;
+  }
+  export function record(type: string): RecordEncoder;
+  export const name: {
+    encode(name: string): Buffer;
+  };
+  export const rrsig: RecordEncoder;
+  export const dnskey: RecordEncoder;
+}
+
+// A DNS server to send queries to
+export interface DnsServer {
+  host: string;
+  port: number;
+}
+
+// DS record of a trusted key for the root zone
+export interface TrustAnchor {
+  keyTag: number;
+  algorithm: number;
+  digestType: number;
+  digest: string; // Hex
+}
+
+export interface DnssecOptions {
+  server?: DnsServer; // Defaults to DNS_SERVER from the environment
+  trustAnchors?: TrustAnchor[]; // Defaults to the IANA root KSKs
+  now?: Date; // Time used to check signature validity
+  timeoutMs?: number;
+}
+
+// Outcome of a validated lookup
+export type DnssecResult =
+  | { status: 'secure'; records: Answer[] }
+  | { status: 'not_found' }
+  | { status: 'bogus'; reason: string };
+
+// IANA root zone KSKs (https://data.iana.org/root-anchors/root-anchors.xml)
+export const ROOT_TRUST_ANCHORS: TrustAnchor[] = [
+  {
+    keyTag: 20326,
+    algorithm: 8,
+    digestType: 2,
+    digest: 'E06D44B80B8F1D39A95C0B0D7C65D08458E880409BBC683457104237C7F8EC8D'
+  },
+  {
+    keyTag: 38696,
+    algorithm: 8,
+    digestType: 2,
+    digest: '683D2D0ACB8C9B712A1948B27F741219298D0A450D612C483AF444A4C0FB2B16'
+  }
+];
+
+// Recursive resolver used when none is passed in, as "host" or "host:port"
+const DEFAULT_DNS_SERVER = '1.1.1.1:53';
+
+// Longest CNAME chain we follow before giving up
+const MAX_CNAME_CHAIN = 8;
+
+// Numeric record types needed for canonical RR encoding
+const TYPE_CODES: Record<string, number> = {
+  CNAME: 5,
+  TXT: 16,
+  DS: 43,
+  NSEC: 47,
+  DNSKEY: 48,
+  NSEC3: 50
+};
+
+const CLASS_IN = 1;
+
+// DNSKEY flag for zone keys (RFC 4034 section 2.1.1)
+const ZONE_KEY_FLAG = 0x0100;
+
+// NSEC3 hash algorithm (SHA-1) and opt-out flag (RFC 5155 section 3.1)
+const NSEC3_SHA1 = 1;
+const NSEC3_OPT_OUT_FLAG = 0x01;
+
+// NSEC3 chains with more iterations than this are treated as insecure (RFC 9276 section 3.2)
+const MAX_NSEC3_ITERATIONS = 100;
+
+/**
+ * Get the DNS server configured through DNS_SERVER, e.g. "127.0.0.1:5353"
+ */
+export function getDefaultDnsServer(): DnsServer {
+  const [host, port] = (process.env.DNS_SERVER || DEFAULT_DNS_SERVER).split(':');
+  return { host, port: port ? parseInt(port, 10) : 53 };
+}
+
+// Names are compared lowercase and without the trailing dot; the root is ''
+function normalizeName(name: string): string {
+  return name === '.' ? '' : name.replace(/\.$/, '').toLowerCase();
+}
+
+function labelCount(name: string): number {
+  return name ? name.split('.').filter((label) => label !== '*').length : 0;
+}
+
+function isSubdomainOf(child: string, parent: string): boolean {
+  return parent === '' || child === parent || child.endsWith(`.${parent}`);
+}
+
+function parentOf(name: string): string {
+  return name.includes('.') ? name.slice(name.indexOf('.') + 1) : '';
+}
+
+// Wire format of a name; dns-packet encodes '' with an extra zero byte, so the root is passed as '.'
+function encodeName(name: string): Buffer {
+  return dnsPacket.name.encode(name || '.');
+}
+
+/**
+ * Compare names in canonical DNS order (RFC 4034 section 6.1): label by label from the right
+ */
+function compareNames(a: string, b: string): number {
+  const aLabels = a ? a.split('.').reverse() : [];
+  const bLabels = b ? b.split('.').reverse() : [];
+  for (let i = 0; i < Math.min(aLabels.length, bLabels.length); i++) {
+    const order = Buffer.compare(Buffer.from(aLabels[i]), Buffer.from(bLabels[i]));
+    if (order !== 0) {
+      return order;
+    }
+  }
+  return aLabels.length - bLabels.length;
+}
+
+/**
+ * Send a single query with the DNSSEC OK bit set, retrying over TCP if the UDP answer is truncated
+ */
+async function sendQuery(name: string, type: RecordType, options: DnssecOptions): Promise<DecodedPacket> {
+  const server = options.server ?? getDefaultDnsServer();
+  const timeoutMs = options.timeoutMs ?? 5000;
+
+  const query = {
+    type: 'query' as const,
+    id: crypto.randomInt(0, 65536),
+    // We validate ourselves, so ask for the records even if the resolver thinks they're bogus
+    flags: dnsPacket.RECURSION_DESIRED | dnsPacket.CHECKING_DISABLED,
+    questions: [{ type, name: name || '.' }],
+    additionals: [{
+      type: 'OPT',
+      name: '.',
+      udpPayloadSize: 4096,
+      flags: dnsPacket.DNSSEC_OK
+    } as Answer]
+  };
+
+  const response = await sendUdpQuery(dnsPacket.encode(query), query.id, server, timeoutMs);
+  if (!response.flag_tc) {
+    return response;
+  }
+
+  console.log(`DNS response for ${name} ${type} was truncated, retrying over TCP`);
+  return sendTcpQuery(dnsPacket.streamEncode(query), server, timeoutMs);
+}
+
+function sendUdpQuery(message: Buffer, id: number, server: DnsServer, timeoutMs: number): Promise<DecodedPacket> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket(net.isIPv6(server.host) ? 'udp6' : 'udp4');
+    const timer = setTimeout(() => {
+      socket.close();
+      reject(new Error(`DNS query to ${server.host}:${server.port} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    socket.on('message', (data) => {
+      try {
+        const packet = dnsPacket.decode(data);
+        // Ignore stray packets that don't answer our query
+        if (packet.id !== id) {
+          return;
+        }
+        clearTimeout(timer);
+        socket.close();
+        resolve(packet);
+      } catch (error) {
+        console.error('Error decoding DNS response:', error);
+      }
+    });
+
+    socket.on('error', (error) => {
+      clearTimeout(timer);
+      socket.close();
+      reject(error);
+    });
+
+    socket.send(message, server.port, server.host);
+  });
+}
+
+function sendTcpQuery(message: Buffer, server: DnsServer, timeoutMs: number): Promise<DecodedPacket> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(server.port, server.host);
+    let received = Buffer.alloc(0);
+
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy();
+      reject(new Error(`DNS query to ${server.host}:${server.port} timed out after ${timeoutMs}ms`));
+    });
+
+    socket.on('connect', () => socket.write(message));
+
+    socket.on('data', (data) => {
+      received = Buffer.concat([received, data]);
+      // TCP messages are prefixed with their length
+      if (received.length >= 2 && received.length >= received.readUInt16BE(0) + 2) {
+        socket.end();
+        resolve(dnsPacket.streamDecode(received) as DecodedPacket);
+      }
+    });
+
+    socket.on('error', (error) => {
+      socket.destroy();
+      reject(error);
+    });
+  });
+}
+
+// RDATA of a record in canonical form (RFC 4034 section 6.2)
+function canonicalRdata(record: Answer): Buffer {
+  const data = record.type === 'CNAME' ? (record.data as string).toLowerCase() : (record as { data: unknown }).data;
+  // The encoders prefix the RDATA with its length
+  return dnsPacket.record(record.type).encode(data).subarray(2);
+}
+
+/**
+ * Compute the key tag of a DNSKEY (RFC 4034 appendix B)
+ */
+export function computeKeyTag(key: DnskeyData): number {
+  const rdata = dnsPacket.dnskey.encode(key).subarray(2);
+  let sum = 0;
+  for (let i = 0; i < rdata.length; i++) {
+    sum += i & 1 ? rdata[i] : rdata[i] << 8;
+  }
+  sum += (sum >> 16) & 0xffff;
+  return sum & 0xffff;
+}
+
+/**
+ * Check whether a DS record matches a DNSKEY of the given zone
+ */
+function dsMatchesKey(ds: DsData, zone: string, key: DnskeyData): boolean {
+  const hashes: Record<number, string> = { 1: 'sha1', 2: 'sha256', 4: 'sha384' };
+  const hash = hashes[ds.digestType];
+  if (!hash || ds.algorithm !== key.algorithm || ds.keyTag !== computeKeyTag(key)) {
+    return false;
+  }
+
+  const digest = crypto.createHash(hash)
+    .update(encodeName(zone))
+    .update(dnsPacket.dnskey.encode(key).subarray(2))
+    .digest();
+  return digest.equals(ds.digest);
+}
+
+// Turn a DNSKEY into a key Node's crypto can verify with
+function toPublicKey(key: DnskeyData): crypto.KeyObject | null {
+  const base64url = (data: Buffer) => data.toString('base64url');
+
+  switch (key.algorithm) {
+    case 8: // RSASHA256
+    case 10: { // RSASHA512
+      // Exponent length is one byte, or zero followed by two bytes (RFC 3110)
+      let offset = 1;
+      let exponentLength = key.key[0];
+      if (exponentLength === 0) {
+        exponentLength = key.key.readUInt16BE(1);
+        offset = 3;
+      }
+      const exponent = key.key.subarray(offset, offset + exponentLength);
+      const modulus = key.key.subarray(offset + exponentLength);
+      return crypto.createPublicKey({ key: { kty: 'RSA', n: base64url(modulus), e: base64url(exponent) }, format: 'jwk' });
+    }
+    case 13: // ECDSAP256SHA256
+    case 14: { // ECDSAP384SHA384
+      const half = key.key.length / 2;
+      return crypto.createPublicKey({
+        key: {
+          kty: 'EC',
+          crv: key.algorithm === 13 ? 'P-256' : 'P-384',
+          x: base64url(key.key.subarray(0, half)),
+          y: base64url(key.key.subarray(half))
+        },
+        format: 'jwk'
+      });
+    }
+    case 15: // ED25519
+      return crypto.createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: base64url(key.key) }, format: 'jwk' });
+    default:
+      return null;
+  }
+}
+
+/**
+ * Verify an RRSIG over an RRset with a DNSKEY (RFC 4034 section 3.1.8.1)
+ */
+function verifySignature(owner: string, records: Answer[], signature: RrsigData, key: DnskeyData): boolean {
+  const publicKey = toPublicKey(key);
+  if (!publicKey || records.length === 0) {
+    return false;
+  }
+
+  // Wildcard-expanded answers are signed over the wildcard name
+  const ownerLabels = owner ? owner.split('.') : [];
+  const signedOwner = signature.labels < ownerLabels.length
+    ? ['*', ...ownerLabels.slice(ownerLabels.length - signature.labels)].join('.')
+    : owner;
+  const ownerWire = encodeName(signedOwner);
+
+  const typeCode = TYPE_CODES[records[0].type];
+  if (!typeCode) {
+    return false;
+  }
+
+  // Records are sorted by their canonical RDATA, without duplicates
+  const rdatas = records
+    .map(canonicalRdata)
+    .sort(Buffer.compare)
+    .filter((rdata, index, all) => index === 0 || !rdata.equals(all[index - 1]));
+
+  const rrs = rdatas.map((rdata) => {
+    const header = Buffer.alloc(10);
+    header.writeUInt16BE(typeCode, 0);
+    header.writeUInt16BE(CLASS_IN, 2);
+    header.writeUInt32BE(signature.originalTTL, 4);
+    header.writeUInt16BE(rdata.length, 8);
+    return Buffer.concat([ownerWire, header, rdata]);
+  });
+
+  // RRSIG RDATA without the signature, with the signer name in canonical form
+  const signedFields = dnsPacket.rrsig.encode({
+    ...signature,
+    signersName: normalizeName(signature.signersName) || '.',
+    signature: Buffer.alloc(0)
+  }).subarray(2);
+
+  const data = Buffer.concat([signedFields, ...rrs]);
+
+  try {
+    switch (key.algorithm) {
+      case 8:
+      case 13:
+        return crypto.verify('sha256', data, { key: publicKey, dsaEncoding: 'ieee-p1363' }, signature.signature);
+      case 10:
+        return crypto.verify('sha512', data, publicKey, signature.signature);
+      case 14:
+        return crypto.verify('sha384', data, { key: publicKey, dsaEncoding: 'ieee-p1363' }, signature.signature);
+      case 15:
+        return crypto.verify(null, data, publicKey, signature.signature);
+      default:
+        return false;
+    }
+  } catch (error) {
+    console.error('Error verifying DNSSEC signature:', error);
+    return false;
+  }
+}
+
+// Keys of zones validated during one lookup, so each zone is only fetched once
+type ValidationContext = {
+  options: DnssecOptions;
+  zoneKeys: Map<string, Promise<DnskeyData[] | string>>;
+};
+
+// Records in the answer section, or the authority section for denial of existence
+type PacketSection = 'answers' | 'authorities';
+
+function recordsOf(packet: DecodedPacket, owner: string, type: string, section: PacketSection = 'answers'): Answer[] {
+  return (packet[section] ?? []).filter(
+    (answer) => answer.type === type && normalizeName(answer.name) === owner
+  );
+}
+
+function signaturesOf(packet: DecodedPacket, owner: string, type: string, section: PacketSection = 'answers'): RrsigAnswer[] {
+  return (packet[section] ?? []).filter(
+    (answer): answer is RrsigAnswer =>
+      answer.type === 'RRSIG' && normalizeName(answer.name) === owner && answer.data.typeCovered === type
+  );
+}
+
+function isCurrentlyValid(signature: RrsigData, options: DnssecOptions): boolean {
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  return signature.inception <= now && now <= signature.expiration;
+}
+
+/**
+ * Validate an RRset against the keys of the zone that signed it
+ * @returns null if it's valid, otherwise the reason it isn't
+ */
+async function validateRRset(
+  owner: string,
+  records: Answer[],
+  signatures: RrsigAnswer[],
+  context: ValidationContext
+): Promise<string | null> {
+  if (!signatures.length) {
+    return `${owner || '.'} ${records[0]?.type} is not signed`;
+  }
+
+  let reason = `no valid signature for ${owner || '.'} ${records[0]?.type}`;
+  for (const { data: signature } of signatures) {
+    const signer = normalizeName(signature.signersName);
+    if (!isSubdomainOf(owner, signer) || signature.labels > labelCount(owner)) {
+      continue;
+    }
+    if (!isCurrentlyValid(signature, context.options)) {
+      reason = `signature for ${owner || '.'} ${records[0]?.type} has expired or is not yet valid`;
+      continue;
+    }
+
+    const keys = await getZoneKeys(signer, context);
+    if (typeof keys === 'string') {
+      reason = keys;
+      continue;
+    }
+
+    const candidates = keys.filter(
+      (key) => key.algorithm === signature.algorithm && computeKeyTag(key) === signature.keyTag
+    );
+    if (candidates.some((key) => verifySignature(owner, records, signature, key))) {
+      return null;
+    }
+  }
+
+  return reason;
+}
+
+/**
+ * Get the validated DNSKEYs of a zone, following the chain of trust up to the root
+ * @returns The zone keys, or the reason they couldn't be validated
+ */
+function getZoneKeys(zone: string, context: ValidationContext): Promise<DnskeyData[] | string> {
+  let keys = context.zoneKeys.get(zone);
+  if (!keys) {
+    keys = fetchZoneKeys(zone, context);
+    context.zoneKeys.set(zone, keys);
+  }
+  return keys;
+}
+
+async function fetchZoneKeys(zone: string, context: ValidationContext): Promise<DnskeyData[] | string> {
+  // The DS records vouching for this zone's keys come from the parent zone, or the trust anchors for the root
+  let dsRecords: DsData[];
+  if (zone === '') {
+    dsRecords = (context.options.trustAnchors ?? ROOT_TRUST_ANCHORS).map((anchor) => ({
+      keyTag: anchor.keyTag,
+      algorithm: anchor.algorithm,
+      digestType: anchor.digestType,
+      digest: Buffer.from(anchor.digest, 'hex')
+    }));
+  } else {
+    const dsResponse = await sendQuery(zone, 'DS', context.options);
+    const dsAnswers = recordsOf(dsResponse, zone, 'DS');
+    if (!dsAnswers.length) {
+      return `${zone} has no DS record, so it is not signed`;
+    }
+
+    // DS records must be signed by a parent zone, never the zone itself
+    const dsSignatures = signaturesOf(dsResponse, zone, 'DS').filter(
+      (signature) => normalizeName(signature.data.signersName) !== zone
+    );
+    const dsError = await validateRRset(zone, dsAnswers, dsSignatures, context);
+    if (dsError) {
+      return dsError;
+    }
+    dsRecords = dsAnswers.map((answer) => (answer as DSAnswer).data);
+  }
+
+  const keyResponse = await sendQuery(zone, 'DNSKEY', context.options);
+  const keyAnswers = recordsOf(keyResponse, zone, 'DNSKEY');
+  const keys = keyAnswers
+    .map((answer) => (answer as DnskeyAnswer).data)
+    .filter((key) => key.flags & ZONE_KEY_FLAG);
+
+  // Entry keys are the ones a DS record vouches for; one of them must sign the key set
+  const entryKeys = keys.filter((key) => dsRecords.some((ds) => dsMatchesKey(ds, zone, key)));
+  if (!entryKeys.length) {
+    return `no DNSKEY of ${zone || '.'} matches its DS records`;
+  }
+
+  const keySignatures = signaturesOf(keyResponse, zone, 'DNSKEY');
+  const isKeySetSigned = keySignatures.some(({ data: signature }) =>
+    normalizeName(signature.signersName) === zone &&
+    isCurrentlyValid(signature, context.options) &&
+    entryKeys.some((key) =>
+      key.algorithm === signature.algorithm &&
+      computeKeyTag(key) === signature.keyTag &&
+      verifySignature(zone, keyAnswers, signature, key)
+    )
+  );
+  if (!isKeySetSigned) {
+    return `DNSKEY set of ${zone || '.'} is not signed by a trusted key`;
+  }
+
+  return keys;
+}
+
+// A validated NSEC or NSEC3 record from the authority section
+type DenialRecord<T> = { owner: string; data: T };
+
+/**
+ * Validate every NSEC or NSEC3 RRset in a response's authority section. Only signatures
+ * from a zone enclosing the queried name count, so another zone can't deny it.
+ * @returns The validated records, or the reason one of them isn't valid
+ */
+async function getValidatedDenialRecords<T>(
+  name: string,
+  type: 'NSEC' | 'NSEC3',
+  response: DecodedPacket,
+  context: ValidationContext
+): Promise<DenialRecord<T>[] | string> {
+  const owners = new Set(
+    (response.authorities ?? []).filter((record) => record.type === type).map((record) => normalizeName(record.name))
+  );
+
+  const validated: DenialRecord<T>[] = [];
+  for (const owner of Array.from(owners)) {
+    const records = recordsOf(response, owner, type, 'authorities');
+    const signatures = signaturesOf(response, owner, type, 'authorities').filter(
+      (signature) => isSubdomainOf(name, normalizeName(signature.data.signersName))
+    );
+    const error = await validateRRset(owner, records, signatures, context);
+    if (error) {
+      return error;
+    }
+    records.forEach((record) => validated.push({ owner, data: (record as unknown as { data: T }).data }));
+  }
+  return validated;
+}
+
+// Whether an NSEC record's span covers a name that doesn't exist
+function nsecCovers(nsec: DenialRecord<NsecData>, name: string): boolean {
+  const next = normalizeName(nsec.data.nextDomain);
+  if (compareNames(nsec.owner, next) < 0) {
+    return compareNames(nsec.owner, name) < 0 && compareNames(name, next) < 0;
+  }
+  // The last NSEC of a zone points back at the apex
+  return compareNames(nsec.owner, name) < 0 && isSubdomainOf(name, next);
+}
+
+// Longest ancestor two names share
+function commonAncestor(a: string, b: string): string {
+  let ancestor = a;
+  while (ancestor && !isSubdomainOf(b, ancestor)) {
+    ancestor = parentOf(ancestor);
+  }
+  return ancestor;
+}
+
+/**
+ * Check that NSEC records prove there are no records of a type at a name (RFC 4035 section 5.4)
+ * @returns null if they do, otherwise why not
+ */
+function proveDenialWithNsec(name: string, type: string, nsecs: DenialRecord<NsecData>[]): string | null {
+  // The name exists, so its type bitmap must leave out the type (and a CNAME that would replace it)
+  const matching = nsecs.find((nsec) => nsec.owner === name);
+  if (matching) {
+    return matching.data.rrtypes.includes(type) || matching.data.rrtypes.includes('CNAME')
+      ? `NSEC record shows ${name} has ${type} records`
+      : null;
+  }
+
+  const covering = nsecs.find((nsec) => nsecCovers(nsec, name));
+  if (!covering) {
+    return `no NSEC record covers ${name}`;
+  }
+
+  // An empty non-terminal exists only because of names below it, and has no records of its own
+  const next = normalizeName(covering.data.nextDomain);
+  if (next !== name && isSubdomainOf(next, name)) {
+    return null;
+  }
+
+  // The name doesn't exist; there must also be no wildcard that could have answered for it
+  const owner = commonAncestor(name, covering.owner);
+  const fromNext = commonAncestor(name, next);
+  const closestEncloser = owner.length >= fromNext.length ? owner : fromNext;
+  const wildcard = closestEncloser ? `*.${closestEncloser}` : '*';
+  if (!nsecs.some((nsec) => nsecCovers(nsec, wildcard))) {
+    return `no NSEC record proves there is no wildcard at ${wildcard}`;
+  }
+  return null;
+}
+
+/**
+ * Hash a name for NSEC3 (RFC 5155 section 5)
+ */
+function hashNsec3Name(name: string, params: Nsec3Data): Buffer {
+  let digest = crypto.createHash('sha1').update(encodeName(name)).update(params.salt).digest();
+  for (let i = 0; i < params.iterations; i++) {
+    digest = crypto.createHash('sha1').update(digest).update(params.salt).digest();
+  }
+  return digest;
+}
+
+/**
+ * Check that NSEC3 records prove there are no records of a type at a name (RFC 5155 section 8)
+ * @returns null if they do, otherwise why not
+ */
+function proveDenialWithNsec3(name: string, type: string, nsec3s: DenialRecord<Nsec3Data>[]): string | null {
+  const params = nsec3s[0].data;
+  const zone = parentOf(nsec3s[0].owner);
+  if (nsec3s.some((nsec3) =>
+    parentOf(nsec3.owner) !== zone ||
+    nsec3.data.algorithm !== params.algorithm ||
+    nsec3.data.iterations !== params.iterations ||
+    !nsec3.data.salt.equals(params.salt)
+  )) {
+    return 'NSEC3 records use different zones or parameters';
+  }
+  if (params.algorithm !== NSEC3_SHA1) {
+    return `unsupported NSEC3 hash algorithm ${params.algorithm}`;
+  }
+  if (params.iterations > MAX_NSEC3_ITERATIONS) {
+    return `NSEC3 uses ${params.iterations} iterations, more than the ${MAX_NSEC3_ITERATIONS} we accept`;
+  }
+
+  // Owner names are the base32hex hash followed by the zone
+  const hashed = nsec3s.flatMap((nsec3) => {
+    try {
+      const label = nsec3.owner.split('.')[0].toUpperCase();
+      return [{ ...nsec3, hash: Buffer.from(base32hex.decode(label)) }];
+    } catch {
+      return [];
+    }
+  });
+  const matching = (candidate: string) => {
+    const hash = hashNsec3Name(candidate, params);
+    return hashed.find((nsec3) => nsec3.hash.equals(hash));
+  };
+  const covering = (candidate: string) => {
+    const hash = hashNsec3Name(candidate, params);
+    return hashed.find((nsec3) => {
+      const next = nsec3.data.nextDomain;
+      if (Buffer.compare(nsec3.hash, next) < 0) {
+        return Buffer.compare(nsec3.hash, hash) < 0 && Buffer.compare(hash, next) < 0;
+      }
+      // The last NSEC3 of the chain wraps around to the first
+      return Buffer.compare(nsec3.hash, hash) < 0 || Buffer.compare(hash, next) < 0;
+    });
+  };
+
+  if (!isSubdomainOf(name, zone)) {
+    return `NSEC3 records of ${zone || '.'} can't deny ${name}`;
+  }
+
+  // The name exists, so its type bitmap must leave out the type (and a CNAME that would replace it)
+  const match = matching(name);
+  if (match) {
+    return match.data.rrtypes.includes(type) || match.data.rrtypes.includes('CNAME')
+      ? `NSEC3 record shows ${name} has ${type} records`
+      : null;
+  }
+
+  // Closest encloser proof: the nearest ancestor that exists, and the next closer name below it that doesn't
+  let nextCloser = name;
+  let closestEncloser = parentOf(name);
+  while (!matching(closestEncloser)) {
+    if (closestEncloser === zone || !isSubdomainOf(closestEncloser, zone)) {
+      return `no NSEC3 record proves an ancestor of ${name} exists`;
+    }
+    nextCloser = closestEncloser;
+    closestEncloser = parentOf(closestEncloser);
+  }
+
+  const nextCloserCover = covering(nextCloser);
+  if (!nextCloserCover) {
+    return `no NSEC3 record covers ${nextCloser}`;
+  }
+  if (nextCloserCover.data.flags & NSEC3_OPT_OUT_FLAG) {
+    return `${nextCloser} is covered by an opt-out NSEC3 record, so it may exist unsigned`;
+  }
+
+  const wildcard = closestEncloser ? `*.${closestEncloser}` : '*';
+  if (!covering(wildcard)) {
+    return `no NSEC3 record proves there is no wildcard at ${wildcard}`;
+  }
+  return null;
+}
+
+/**
+ * Check that a response without the requested records proves they don't exist with
+ * signed NSEC or NSEC3 records. Without that proof an attacker could simply strip the records.
+ * @returns null if the denial is authenticated, otherwise the reason it isn't
+ */
+async function validateDenial(name: string, type: string, response: DecodedPacket, context: ValidationContext): Promise<string | null> {
+  const nsecs = await getValidatedDenialRecords<NsecData>(name, 'NSEC', response, context);
+  if (typeof nsecs === 'string') {
+    return nsecs;
+  }
+  if (nsecs.length) {
+    return proveDenialWithNsec(name, type, nsecs);
+  }
+
+  const nsec3s = await getValidatedDenialRecords<Nsec3Data>(name, 'NSEC3', response, context);
+  if (typeof nsec3s === 'string') {
+    return nsec3s;
+  }
+  if (nsec3s.length) {
+    return proveDenialWithNsec3(name, type, nsec3s);
+  }
+
+  return `no signed NSEC or NSEC3 records prove ${name || '.'} has no ${type} records`;
+}
+
+/**
+ * Look up records and validate them with DNSSEC from the root trust anchors down,
+ * following CNAMEs along the way
+ * @param name The name to look up
+ * @param type The record type
+ * @param options Server, trust anchors and clock to use
+ * @returns The validated records, not_found if the zone proves there are none, or bogus if validation failed
+ */
+export async function resolveWithDnssec(
+  name: string,
+  type: 'TXT',
+  options: DnssecOptions = {}
+): Promise<DnssecResult> {
+  const context: ValidationContext = { options, zoneKeys: new Map() };
+  let owner = normalizeName(name);
+
+  for (let step = 0; step <= MAX_CNAME_CHAIN; step++) {
+    const queried = owner;
+    const response = await sendQuery(owner, type, options);
+    const rcode = (response as DecodedPacket & { rcode?: string }).rcode;
+    if (rcode !== 'NOERROR' && rcode !== 'NXDOMAIN') {
+      return { status: 'bogus', reason: `DNS server answered ${rcode}` };
+    }
+
+    // Follow CNAMEs contained in the answer, validating each link
+    let cnames = recordsOf(response, owner, 'CNAME');
+    while (cnames.length) {
+      const cnameError = await validateRRset(owner, cnames, signaturesOf(response, owner, 'CNAME'), context);
+      if (cnameError) {
+        return { status: 'bogus', reason: cnameError };
+      }
+      if (++step > MAX_CNAME_CHAIN) {
+        return { status: 'bogus', reason: 'CNAME chain is too long' };
+      }
+      owner = normalizeName((cnames[0] as StringAnswer).data);
+      cnames = recordsOf(response, owner, 'CNAME');
+    }
+
+    const records = recordsOf(response, owner, type);
+    if (records.length) {
+      const error = await validateRRset(owner, records, signaturesOf(response, owner, type), context);
+      return error ? { status: 'bogus', reason: error } : { status: 'secure', records };
+    }
+
+    // The answer ended at a CNAME target it didn't include; ask for the target directly
+    if (owner !== queried) {
+      continue;
+    }
+
+    const denialError = await validateDenial(owner, type, response, context);
+    return denialError ? { status: 'bogus', reason: denialError } : { status: 'not_found' };
+  }
+
+  return { status: 'bogus', reason: 'CNAME chain is too long' };
+}
@@ -0,0 +1,56 @@
+import { test, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { CachedExchangeRateProvider, StaticExchangeRateProvider, convertFiatToSats, convertSatsToFiat } from './exchange-rates';
+
+// Conversions and caching with fixed prices, so nothing is fetched
+
+const prices = { USD: 100000, EUR: 92000, JPY: 15000000 };
+const rates = new StaticExchangeRateProvider(prices);
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+test('converts fiat to whole sats', async () => {
+  assert.equal(await convertFiatToSats(5, 'USD', rates), 5000);
+  assert.equal(await convertFiatToSats(20, 'EUR', rates), 21739); // 21739.13 rounds down
+  assert.equal(await convertFiatToSats(1, 'JPY', rates), 7); // 6.67 rounds up
+});
+
+test('converts sats to fiat', async () => {
+  assert.equal(await convertSatsToFiat(5000, 'USD', rates), 5);
+  assert.equal((await convertSatsToFiat(21739, 'EUR', rates))!.toFixed(2), '20.00');
+  assert.equal(await convertSatsToFiat(100_000_000, 'JPY', rates), 15000000);
+});
+
+test('returns null for currencies without a price', async () => {
+  assert.equal(await convertFiatToSats(5, 'GBP', rates), null);
+  assert.equal(await convertSatsToFiat(5000, 'GBP', rates), null);
+});
+
+test('reuses a cached price until it expires', async () => {
+  const source = { USD: 100000 };
+  const cached = new CachedExchangeRateProvider(new StaticExchangeRateProvider(source), 60000);
+  let now = Date.UTC(2026, 0, 1);
+  mock.method(Date, 'now', () => now);
+
+  assert.equal(await convertFiatToSats(5, 'USD', cached), 5000);
+  source.USD = 50000;
+  now += 59999;
+  assert.equal(await convertFiatToSats(5, 'USD', cached), 5000);
+  now += 1;
+  assert.equal(await convertFiatToSats(5, 'USD', cached), 10000);
+});
+
+test('falls back to the last known price when the provider has none', async () => {
+  const source: { USD?: number } = { USD: 100000 };
+  const cached = new CachedExchangeRateProvider(new StaticExchangeRateProvider(source), 60000);
+  let now = Date.UTC(2026, 0, 1);
+  mock.method(Date, 'now', () => now);
+
+  assert.equal(await cached.getBtcPrice('USD'), 100000);
+  delete source.USD;
+  now += 120000;
+  assert.equal(await cached.getBtcPrice('USD'), 100000);
+  assert.equal(await cached.getBtcPrice('EUR'), null);
+});
@@ -0,0 +1,144 @@
+import { type FiatCurrency } from '@shared/honorarium';
+
+// How long a fetched bitcoin price is reused before asking the provider again
+const RATE_CACHE_TTL_MS = 60 * 1000;
+
+const SATS_PER_BTC = 100_000_000;
+
+// Any source of bitcoin prices
+export interface IExchangeRateProvider {
+  readonly name: string;
+  // Price of one bitcoin in the given currency, or null if it isn't available
+  getBtcPrice(currency: FiatCurrency): Promise<number | null>;
+}
+
+// Fixed prices, for development and tests without network access
+export class StaticExchangeRateProvider implements IExchangeRateProvider {
+  readonly name = 'static';
+  private prices: Partial<Record<FiatCurrency, number>>;
+
+  constructor(prices: Partial<Record<FiatCurrency, number>> = {
+    USD: 100000,
+    EUR: 92000,
+    GBP: 79000,
+    CAD: 137000,
+    CHF: 88000,
+    AUD: 152000,
+    JPY: 15000000
+  }) {
+    this.prices = prices;
+  }
+
+  async getBtcPrice(currency: FiatCurrency): Promise<number | null> {
+    return this.prices[currency] ?? null;
+  }
+}
+
+// Live prices from mempool.space
+export class MempoolExchangeRateProvider implements IExchangeRateProvider {
+  readonly name = 'mempool';
+  private url: string;
+
+  constructor(url: string = 'https://mempool.space/api/v1/prices') {
+    this.url = url;
+  }
+
+  async getBtcPrice(currency: FiatCurrency): Promise<number | null> {
+    try {
+      const response = await fetch(this.url, { signal: AbortSignal.timeout(10000) });
+      if (!response.ok) {
+        console.error(`Exchange rate request failed with status ${response.status}`);
+        return null;
+      }
+
+      // Response looks like { "time": 1700000000, "USD": 100000, "EUR": 92000, ... }
+      const prices = await response.json() as Record<string, number>;
+      const price = prices[currency];
+      return typeof price === 'number' && price > 0 ? price : null;
+    } catch (error) {
+      console.error('Error fetching exchange rates from mempool.space:', error);
+      return null;
+    }
+  }
+}
+
+// Wraps another provider so repeated conversions don't hit the network
+export class CachedExchangeRateProvider implements IExchangeRateProvider {
+  readonly name: string;
+  private provider: IExchangeRateProvider;
+  private ttlMs: number;
+  private cache = new Map<FiatCurrency, { price: number; fetchedAt: number }>();
+
+  constructor(provider: IExchangeRateProvider, ttlMs: number = RATE_CACHE_TTL_MS) {
+    this.provider = provider;
+    this.ttlMs = ttlMs;
+    this.name = `cached ${provider.name}`;
+  }
+
+  async getBtcPrice(currency: FiatCurrency): Promise<number | null> {
+    const cached = this.cache.get(currency);
+    if (cached && Date.now() - cached.fetchedAt < this.ttlMs) {
+      return cached.price;
+    }
+
+    const price = await this.provider.getBtcPrice(currency);
+    if (price === null) {
+      // A stale price is better than failing the high five altogether
+      return cached?.price ?? null;
+    }
+
+    this.cache.set(currency, { price, fetchedAt: Date.now() });
+    return price;
+  }
+}
+
+/**
+ * Convert a fiat amount to sats at the current rate
+ * @param amount The amount in fiat
+ * @param currency The currency of the amount
+ * @param provider The price source (defaults to the configured provider)
+ * @returns The amount in whole sats, or null if no price is available
+ */
+export async function convertFiatToSats(
+  amount: number,
+  currency: FiatCurrency,
+  provider: IExchangeRateProvider = exchangeRates
+): Promise<number | null> {
+  const price = await provider.getBtcPrice(currency);
+  if (!price) {
+    console.error(`No ${currency} price available from ${provider.name} provider`);
+    return null;
+  }
+
+  const sats = Math.round((amount / price) * SATS_PER_BTC);
+  console.log(`Converted ${amount} ${currency} to ${sats} sats at ${price} ${currency}/BTC`);
+  return sats;
+}
+
+/**
+ * Convert an amount of sats to fiat at the current rate
+ * @param amountSats The amount in sats
+ * @param currency The currency to convert to
+ * @param provider The price source (defaults to the configured provider)
+ * @returns The amount in fiat, or null if no price is available
+ */
+export async function convertSatsToFiat(
+  amountSats: number,
+  currency: FiatCurrency,
+  provider: IExchangeRateProvider = exchangeRates
+): Promise<number | null> {
+  const price = await provider.getBtcPrice(currency);
+  if (!price) {
+    console.error(`No ${currency} price available from ${provider.name} provider`);
+    return null;
+  }
+
+  return (amountSats / SATS_PER_BTC) * price;
+}
+
+// Set EXCHANGE_RATE_PROVIDER=static to use fixed prices instead of mempool.space
+export const exchangeRates: IExchangeRateProvider = new CachedExchangeRateProvider(
+  process.env.EXCHANGE_RATE_PROVIDER === 'static'
+    ? new StaticExchangeRateProvider()
+    : new MempoolExchangeRateProvider()
+);
@@ -0,0 +1,64 @@
+import { EventEmitter } from 'events';
+import type { HighFive } from '@shared/schema';
+
+// Lifecycle events for a single high five, pushed to WebSocket subscribers
+export type HighFiveEvent =
+  | { type: 'paymentReceived'; highFiveId: number; invoice: string | null; paidAt: string | null }
+  | { type: 'expired'; highFiveId: number; invoice: string | null }
+  | { type: 'published'; highFiveId: number; nostrEventId: string; seenOnRelays: number | null };
+
+const emitter = new EventEmitter();
+
+/**
+ * Notify listeners that something happened to a high five
+ */
+export function emitHighFiveEvent(event: HighFiveEvent): void {
+  emitter.emit('highFive', event);
+}
+
+/**
+ * Listen for high five lifecycle events
+ * @returns A function that removes the listener
+ */
+export function onHighFiveEvent(listener: (event: HighFiveEvent) => void): () => void {
+  emitter.on('highFive', listener);
+  return () => {
+    emitter.off('highFive', listener);
+  };
+}
+
+/**
+ * Announce a newly created high five to everyone watching the live feed
+ */
+export function emitHighFiveCreated(highFive: HighFive): void {
+  emitter.emit('created', highFive);
+}
+
+/**
+ * Listen for newly created high fives
+ * @returns A function that removes the listener
+ */
+export function onHighFiveCreated(listener: (highFive: HighFive) => void): () => void {
+  emitter.on('created', listener);
+  return () => {
+    emitter.off('created', listener);
+  };
+}
+
+/**
+ * Tell everyone watching the live feed that a high five was abandoned and is no longer listed
+ */
+export function emitHighFiveRemoved(highFiveId: number): void {
+  emitter.emit('removed', highFiveId);
+}
+
+/**
+ * Listen for high fives dropped from the public list
+ * @returns A function that removes the listener
+ */
+export function onHighFiveRemoved(listener: (highFiveId: number) => void): () => void {
+  emitter.on('removed', listener);
+  return () => {
+    emitter.off('removed', listener);
+  };
+}
@@ -2,6 +2,11 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { runMigrations } from "./migrate";
+import { startPaymentVerifier } from "./payment-verifier";
+import { startPublicationQueue, startRepublishWorker } from "./publication-queue";
+import { startZapReceiptWatcher } from "./zaps";
+import { loadRelayConfig } from "./relay-manager";
+import { isLocalRelayEnabled, startLocalRelay } from "./local-relay";
 import { db } from "./db";
 import path from "path";
 
@@ -49,6 +54,14 @@ app.use((req, res, next) => {
     // Continue execution even if migrations fail
   }
   
+  // Relay lists can be configured in the database, which needs the migrations.
+  // In dev/test mode an in-process relay can stand in for all of them.
+  if (isLocalRelayEnabled()) {
+    await loadRelayConfig({ localRelay: await startLocalRelay() });
+  } else {
+    await loadRelayConfig();
+  }
+  
   // Serve static QR code images from public directory - add this before routes
   // This ensures QR code images are always accessible
   const qrCodesDir = path.join(process.cwd(), 'public', 'qr-codes');
@@ -63,6 +76,18 @@ app.use((req, res, next) => {
   }));
   
   const server = await registerRoutes(app);
+  
+  // Poll LUD-21 verify URLs so high fives are only marked paid once settled
+  startPaymentVerifier();
+  
+  // Publish queued high fives once their publication policy allows
+  startPublicationQueue();
+  
+  // Keep re-broadcasting notes until enough relays have them
+  startRepublishWorker();
+  
+  // Link NIP-57 zap receipts to the high fives they pay for
+  startZapReceiptWatcher();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
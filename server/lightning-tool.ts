@@ -1,25 +1,184 @@
-import { LightningAddress } from '@getalby/lightning-tools';
+import { LightningAddress, type Invoice, type LUD18PayerData, type LUD18ServicePayerData } from '@getalby/lightning-tools';
+import { bech32 } from '@scure/base';
+import { rememberIssuedInvoice } from './payment-verifier';
+import { DEFAULT_HONORARIUM_SATS } from '@shared/honorarium';
+
+// Range of amounts a Lightning Address accepts, converted from msats to sats
+export interface PayLimits {
+  minSats: number;
+  maxSats: number;
+}
+
+// Comment used when the recipient's wallet doesn't accept comments or we have nothing better
+export const DEFAULT_INVOICE_COMMENT = 'High Five Payment';
+
+// LNURLs encode whole URLs, so they're longer than bech32's usual 90 character limit
+const MAX_LNURL_LENGTH = 2000;
+
+// An LNURL-pay endpoint from a bech32 LNURL (LUD-06). It's fetched directly rather than
+// through a proxy, and from then on behaves exactly like a Lightning Address.
+class LnurlPayEndpoint extends LightningAddress {
+  private url: string;
+
+  constructor(lnurl: string, url: string) {
+    super(lnurl, { proxy: false });
+    this.url = url;
+  }
+
+  lnurlpUrl(): string {
+    return this.url;
+  }
+
+  async fetch(): Promise<void> {
+    await this.fetchLnurlData();
+  }
+}
+
+/**
+ * Decode a bech32 LNURL (LUD-01) into the URL it encodes
+ * @param lnurl The LNURL, e.g. "lnurl1dp68gurn8ghj7...", optionally prefixed with "lightning:"
+ * @returns The URL, or null if it isn't a valid LNURL
+ */
+export function decodeLnurl(lnurl: string): string | null {
+  try {
+    const encoded = lnurl.trim().replace(/^lightning:/i, '').toLowerCase() as `${string}1${string}`;
+    const { prefix, words } = bech32.decode(encoded, MAX_LNURL_LENGTH);
+    if (prefix !== 'lnurl') {
+      return null;
+    }
+
+    const url = new URL(new TextDecoder().decode(bech32.fromWords(words)));
+
+    // LUD-01: only onion services may use plain http
+    if (url.protocol !== 'https:' && !(url.protocol === 'http:' && url.hostname.endsWith('.onion'))) {
+      console.error(`LNURL points to an insecure URL: ${url}`);
+      return null;
+    }
+    return url.toString();
+  } catch (error) {
+    console.error('Invalid LNURL:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a client for an LNURL-pay service, given either a Lightning Address or an LNURL
+ * @param target A Lightning Address (user@domain.com) or a bech32 LNURL
+ * @returns The client, not yet fetched, or null if the target is neither
+ */
+export function createLnurlPayClient(target: string): LightningAddress | null {
+  if (target.includes('@')) {
+    return new LightningAddress(target);
+  }
+
+  const url = decodeLnurl(target);
+  return url ? new LnurlPayEndpoint(target, url) : null;
+}
+
+/**
+ * Describe a high five for the recipient's wallet history
+ * @param reason What the high five is for
+ * @param senderName Who sent it, omitted for anonymous senders
+ * @returns The comment text, before fitting it to the recipient's limit
+ */
+export function buildHighFiveComment(reason: string, senderName?: string): string {
+  // Wallets show comments on a single line
+  const flatReason = reason.replace(/\s+/g, ' ').trim();
+  if (!flatReason) {
+    return DEFAULT_INVOICE_COMMENT;
+  }
+  return senderName ? `High Five from ${senderName}: ${flatReason}` : `High Five: ${flatReason}`;
+}
+
+/**
+ * Fit a comment into the length allowed by a LNURL-pay service (LUD-12)
+ * @param comment The full comment
+ * @param commentAllowed The maximum length advertised by the service
+ * @returns The comment, truncated if needed, or the generic text if comments aren't supported
+ */
+export function fitCommentToLimit(comment: string, commentAllowed?: number): string {
+  if (!commentAllowed || commentAllowed <= 0) {
+    return DEFAULT_INVOICE_COMMENT;
+  }
+  if (comment.length <= commentAllowed) {
+    return comment;
+  }
+  
+  // Truncate by code point so emoji aren't split, leaving room for the ellipsis
+  const chars = Array.from(comment);
+  let truncated = '';
+  for (const char of chars) {
+    if (truncated.length + char.length > commentAllowed - 1) {
+      break;
+    }
+    truncated += char;
+  }
+  return `${truncated.trimEnd()}…`;
+}
+
+// What we know about the sender, for LUD-18 payer data. Never set for anonymous senders.
+export interface PayerInfo {
+  name?: string;
+  pubkey?: string; // Hex-encoded Nostr public key
+}
+
+/**
+ * Build LUD-18 payer data containing only the fields the recipient's service asks for
+ * @param servicePayerData The payerData advertised by the LNURL-pay service
+ * @param payer What we know about the sender
+ * @returns The payer data to send, or undefined if there is nothing to send
+ */
+export function buildPayerData(
+  servicePayerData: LUD18ServicePayerData | undefined,
+  payer: PayerInfo | undefined
+): LUD18PayerData | undefined {
+  if (!servicePayerData || !payer) {
+    return undefined;
+  }
+  
+  const payerData: LUD18PayerData = {};
+  if (servicePayerData.name && payer.name) {
+    payerData.name = payer.name;
+  }
+  if (servicePayerData.pubkey && payer.pubkey) {
+    payerData.pubkey = payer.pubkey;
+  }
+  
+  return Object.keys(payerData).length ? payerData : undefined;
+}
+
+/**
+ * Check whether an amount is within the limits of a Lightning Address
+ * @param amount Amount in sats
+ * @param limits The limits advertised by the recipient
+ * @returns true if the recipient will accept the amount
+ */
+export function isAmountWithinLimits(amount: number, limits: PayLimits): boolean {
+  return amount >= limits.minSats && amount <= limits.maxSats;
+}
 
 /**
  * Fetches payment data from a Lightning Address and generates an invoice
- * @param lightningAddress The lightning address (user@domain.com format)
- * @param amount Amount in sats to request (default: 1000)
- * @param comment Optional comment for the invoice
- * @returns The Lightning invoice payment request or null if not found
+ * @param lightningAddress The lightning address (user@domain.com format) or an LNURL
+ * @param amount Amount in sats to request (default: DEFAULT_HONORARIUM_SATS)
+ * @param comment Optional comment for the invoice, truncated to what the recipient accepts
+ * @param payer Optional sender details, sent as LUD-18 payer data if the recipient asks for them
+ * @returns The invoice, with its LUD-21 verify URL if the recipient offers one, or null if not found
  */
-export async function getInvoiceFromLightningAddress(
+export async function requestInvoiceFromLightningAddress(
   lightningAddress: string, 
-  amount: number = 21000, // Changed to 21,000 sats
-  comment: string = 'High Five Payment'
-): Promise<string | null> {
+  amount: number = DEFAULT_HONORARIUM_SATS,
+  comment: string = DEFAULT_INVOICE_COMMENT,
+  payer?: PayerInfo
+): Promise<Invoice | null> {
   try {
-    if (!lightningAddress.includes('@')) {
-      console.error('Invalid lightning address format. Expected user@domain format');
+    const ln = createLnurlPayClient(lightningAddress);
+    if (!ln) {
+      console.error('Invalid lightning address format. Expected user@domain format or an LNURL');
       return null;
     }
 
     console.log(`Generating invoice for lightning address: ${lightningAddress}`);
-    const ln = new LightningAddress(lightningAddress);
     
     // Fetch the LNURL data with timeout
     const fetchPromise = ln.fetch();
@@ -34,10 +193,30 @@ export async function getInvoiceFromLightningAddress(
       return null;
     }
     
+    // lnurlpData min/max are in msats
+    const limits = {
+      minSats: Math.ceil(ln.lnurlpData.min / 1000),
+      maxSats: Math.floor(ln.lnurlpData.max / 1000)
+    };
+    if (!isAmountWithinLimits(amount, limits)) {
+      console.error(`Amount ${amount} sats is outside the range ${limits.minSats}-${limits.maxSats} sats accepted by ${lightningAddress}`);
+      return null;
+    }
+    
+    // Only send as much of the comment as the recipient's wallet accepts
+    const fittedComment = fitCommentToLimit(comment, ln.lnurlpData.commentAllowed);
+    
+    // Tell the recipient who is paying, if their service supports LUD-18
+    const payerdata = buildPayerData(ln.lnurlpData.payerData, payer);
+    if (payerdata) {
+      console.log(`Including payer data (${Object.keys(payerdata).join(', ')}) in invoice request`);
+    }
+    
     // Generate an invoice
     const invoice = await ln.requestInvoice({
       satoshi: amount,
-      comment: comment,
+      comment: fittedComment,
+      payerdata,
     });
     
     if (!invoice || !invoice.paymentRequest) {
@@ -50,27 +229,47 @@ export async function getInvoiceFromLightningAddress(
     console.log(invoice.paymentRequest);
     
     console.log(`Successfully generated invoice for ${lightningAddress}`);
-    return invoice.paymentRequest;
+    return invoice;
   } catch (error) {
     console.error('Error generating invoice from Lightning Address:', error);
     return null;
   }
 }
 
+/**
+ * Generate an invoice to hand to a client, which sends it back when it creates the high five
+ * @returns The Lightning invoice payment request or null if not found
+ */
+export async function getInvoiceFromLightningAddress(
+  lightningAddress: string, 
+  amount: number = DEFAULT_HONORARIUM_SATS,
+  comment: string = DEFAULT_INVOICE_COMMENT,
+  payer?: PayerInfo
+): Promise<string | null> {
+  const invoice = await requestInvoiceFromLightningAddress(lightningAddress, amount, comment, payer);
+  if (!invoice) {
+    return null;
+  }
+
+  // Keep the LUD-21 verify URL so the high five created with this invoice can be tracked
+  rememberIssuedInvoice(invoice, lightningAddress);
+  return invoice.paymentRequest;
+}
+
 /**
  * Fetches LNURL callback URL from a Lightning Address
- * @param lightningAddress The lightning address (user@domain.com format)
+ * @param lightningAddress The lightning address (user@domain.com format) or an LNURL
  * @returns The LNURL callback URL or null if not found
  */
 export async function getLnurlFromLightningAddress(lightningAddress: string): Promise<string | null> {
   try {
-    if (!lightningAddress.includes('@')) {
-      console.error('Invalid lightning address format. Expected user@domain format');
+    const ln = createLnurlPayClient(lightningAddress);
+    if (!ln) {
+      console.error('Invalid lightning address format. Expected user@domain format or an LNURL');
       return null;
     }
 
     console.log(`Fetching LNURL data for lightning address: ${lightningAddress}`);
-    const ln = new LightningAddress(lightningAddress);
     
     // Fetch the LNURL data with timeout
     const fetchPromise = ln.fetch();
@@ -97,4 +296,42 @@ export async function getLnurlFromLightningAddress(lightningAddress: string): Pr
     console.error('Error getting LNURL from Lightning Address:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Fetches the minimum and maximum amounts a Lightning Address accepts
+ * @param lightningAddress The lightning address (user@domain.com format) or an LNURL
+ * @returns The limits in sats or null if they couldn't be fetched
+ */
+export async function getPayLimitsFromLightningAddress(lightningAddress: string): Promise<PayLimits | null> {
+  try {
+    const ln = createLnurlPayClient(lightningAddress);
+    if (!ln) {
+      console.error('Invalid lightning address format. Expected user@domain format or an LNURL');
+      return null;
+    }
+
+    
+    // Fetch the LNURL data with timeout
+    const fetchPromise = ln.fetch();
+    const timeoutPromise = new Promise((_, reject) => {
+      setTimeout(() => reject(new Error('Lightning fetch timed out after 10 seconds')), 10000);
+    });
+    
+    await Promise.race([fetchPromise, timeoutPromise]);
+    
+    if (!ln.lnurlpData) {
+      console.error('No LNURL pay data found for lightning address');
+      return null;
+    }
+    
+    // minSendable/maxSendable are in msats; only whole sats within the range can be sent
+    return {
+      minSats: Math.ceil(ln.lnurlpData.min / 1000),
+      maxSats: Math.floor(ln.lnurlpData.max / 1000)
+    };
+  } catch (error) {
+    console.error('Error getting pay limits from Lightning Address:', error);
+    return null;
+  }
+}
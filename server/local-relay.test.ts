@@ -0,0 +1,93 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import WebSocket from 'ws';
+import { finalizeEvent, generateSecretKey, getPublicKey, type Filter } from 'nostr-tools';
+import { loadRelayConfig } from './relay-manager';
+import { startLocalRelay, stopLocalRelay } from './local-relay';
+import { publishSignedEvent, queryNostrEvents } from './nostr-publisher';
+
+// Publishing and querying through the relay manager, with the in-process relay as the only relay
+
+const secretKey = generateSecretKey();
+const pubkey = getPublicKey(secretKey);
+let relayUrl: string;
+
+function signEvent(kind: number, content: string, tags: string[][] = [], created_at = Math.floor(Date.now() / 1000)) {
+  return finalizeEvent({ kind, content, tags, created_at }, secretKey);
+}
+
+// Events come back marked as verified by nostr-tools, so compare them by ID
+async function queryIds(filter: Filter): Promise<string[]> {
+  return (await queryNostrEvents(filter)).map((event) => event.id);
+}
+
+// Send a raw message to the relay and return its first reply
+async function sendRaw(message: string): Promise<unknown[]> {
+  const ws = new WebSocket(relayUrl);
+  try {
+    await new Promise((resolve, reject) => ws.once('open', resolve).once('error', reject));
+    const reply = new Promise<unknown[]>((resolve) => ws.once('message', (data) => resolve(JSON.parse(data.toString()))));
+    ws.send(message);
+    return await reply;
+  } finally {
+    ws.close();
+  }
+}
+
+before(async () => {
+  relayUrl = await startLocalRelay(0);
+  await loadRelayConfig({ localRelay: relayUrl });
+});
+
+after(async () => {
+  await stopLocalRelay();
+});
+
+test('returns a published note to queries that match it', async () => {
+  const note = signEvent(1, 'High five!', [['t', 'highfive']]);
+  const result = await publishSignedEvent(note);
+  assert.equal(result.eventId, note.id);
+  assert.deepEqual(result.relays.map(({ relay, status }) => ({ relay, status })), [{ relay: `${relayUrl}/`, status: 'accepted' }]);
+
+  assert.deepEqual(await queryIds({ ids: [note.id] }), [note.id]);
+  assert.deepEqual(await queryIds({ authors: [pubkey], '#t': ['highfive'] }), [note.id]);
+  assert.deepEqual(await queryIds({ authors: [pubkey], kinds: [7] }), []);
+});
+
+test('keeps only the newest version of an addressable event', async () => {
+  const createdAt = Math.floor(Date.now() / 1000);
+  const pending = signEvent(30505, '', [['d', 'replaced'], ['status', 'pending']], createdAt - 10);
+  const paid = signEvent(30505, '', [['d', 'replaced'], ['status', 'paid']], createdAt);
+  await publishSignedEvent(pending);
+  await publishSignedEvent(paid);
+
+  // An older version arriving late doesn't bring back the replaced one
+  await publishSignedEvent(pending);
+  assert.deepEqual(await queryIds({ kinds: [30505], authors: [pubkey], '#d': ['replaced'] }), [paid.id]);
+});
+
+test('rejects events whose signature does not match', async () => {
+  const note = signEvent(1, 'High five!');
+  const result = await publishSignedEvent({ ...note, content: 'Forged high five' });
+  assert.equal(result.eventId, null);
+  assert.equal(result.relays[0].status, 'rejected');
+  assert.deepEqual(await queryIds({ ids: [note.id] }), []);
+});
+
+test('answers malformed events with OK false instead of crashing', async () => {
+  const [type, id, accepted, message] = await sendRaw('["EVENT",{"id":"x"}]');
+  assert.deepEqual([type, id, accepted], ['OK', 'x', false]);
+  assert.match(String(message), /^invalid: /);
+
+  // The relay is still up
+  const note = signEvent(1, 'Still here');
+  assert.equal((await publishSignedEvent(note)).eventId, note.id);
+});
+
+test('answers filters that are not objects with a NOTICE instead of crashing', async () => {
+  const [type, message] = await sendRaw('["REQ","s",null]');
+  assert.equal(type, 'NOTICE');
+  assert.match(String(message), /^invalid: filters for s must be objects/);
+
+  assert.deepEqual(await queryIds({ authors: [pubkey], kinds: [7] }), []);
+});
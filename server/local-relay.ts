@@ -0,0 +1,239 @@
+// In-process Nostr relay (NIP-01) for development and integration tests.
+// It keeps events in memory and speaks just enough of the protocol for our own flows:
+// EVENT/OK for publishing, REQ/EOSE/CLOSE for queries and live subscriptions.
+// With NOSTR_LOCAL_RELAY=true the server starts it and uses it for every relay purpose,
+// so publishing, DMs and profile lookups all work without a network.
+import { WebSocketServer, WebSocket } from 'ws';
+import { verifyEvent, type Event, type Filter } from 'nostr-tools';
+import { matchFilters } from 'nostr-tools/filter';
+
+// Port the relay listens on unless NOSTR_LOCAL_RELAY_PORT says otherwise
+const DEFAULT_LOCAL_RELAY_PORT = 7777;
+
+// Oldest events are dropped beyond this, so a long dev session can't grow without bound
+const MAX_STORED_EVENTS = 10000;
+
+type RelaySocket = WebSocket & {
+  // Open subscriptions by subscription ID
+  subscriptions?: Map<string, Filter[]>;
+};
+
+let server: WebSocketServer | null = null;
+let events: Event[] = [];
+
+function send(ws: WebSocket, message: unknown[]) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+// Replaceable kinds (NIP-01): only the newest event per pubkey and kind is kept
+function isReplaceable(kind: number): boolean {
+  return kind === 0 || kind === 3 || (kind >= 10000 && kind < 20000);
+}
+
+// Addressable kinds: only the newest event per pubkey, kind and d tag is kept
+function isAddressable(kind: number): boolean {
+  return kind >= 30000 && kind < 40000;
+}
+
+// Ephemeral kinds are passed to subscribers but never stored
+function isEphemeral(kind: number): boolean {
+  return kind >= 20000 && kind < 30000;
+}
+
+function getDTag(event: Event): string {
+  return event.tags.find((tag) => tag[0] === 'd')?.[1] ?? '';
+}
+
+/**
+ * Whether a stored event is superseded by a new one for the same replaceable slot
+ */
+function isSupersededBy(stored: Event, event: Event): boolean {
+  if (stored.pubkey !== event.pubkey || stored.kind !== event.kind) {
+    return false;
+  }
+  if (isReplaceable(event.kind)) {
+    return true;
+  }
+  return isAddressable(event.kind) && getDTag(stored) === getDTag(event);
+}
+
+/**
+ * Store an event, applying NIP-01 replacement rules
+ * @returns Why it wasn't stored, or null if it was
+ */
+function storeEvent(event: Event): string | null {
+  if (events.some((stored) => stored.id === event.id)) {
+    return 'duplicate: already have this event';
+  }
+
+  if (isReplaceable(event.kind) || isAddressable(event.kind)) {
+    const existing = events.find((stored) => isSupersededBy(stored, event));
+    if (existing && existing.created_at > event.created_at) {
+      return 'duplicate: already have a newer version of this event';
+    }
+    events = events.filter((stored) => !isSupersededBy(stored, event));
+  }
+
+  events.push(event);
+  if (events.length > MAX_STORED_EVENTS) {
+    events = events.slice(events.length - MAX_STORED_EVENTS);
+  }
+  return null;
+}
+
+/**
+ * Stored events matching a REQ's filters, newest first, respecting each filter's limit
+ */
+function findEvents(filters: Filter[]): Event[] {
+  const newestFirst = [...events].sort((a, b) => b.created_at - a.created_at);
+  const found = new Map<string, Event>();
+
+  filters.forEach((filter) => {
+    const matching = newestFirst.filter((event) => matchFilters([filter], event));
+    const limited = filter.limit !== undefined ? matching.slice(0, filter.limit) : matching;
+    limited.forEach((event) => found.set(event.id, event));
+  });
+
+  return Array.from(found.values()).sort((a, b) => b.created_at - a.created_at);
+}
+
+function handleEvent(ws: RelaySocket, event: Event) {
+  if (!event || typeof event.id !== 'string' || !verifyEvent(event)) {
+    send(ws, ['OK', event?.id ?? '', false, 'invalid: bad event id or signature']);
+    return;
+  }
+
+  // NIP-01: events the relay already has are still acknowledged as accepted
+  const notStored = isEphemeral(event.kind) ? null : storeEvent(event);
+  send(ws, ['OK', event.id, true, notStored ?? '']);
+  if (notStored) {
+    return;
+  }
+
+  // Pass the new event to every live subscription it matches
+  server?.clients.forEach((client: RelaySocket) => {
+    client.subscriptions?.forEach((filters, subscriptionId) => {
+      if (matchFilters(filters, event)) {
+        send(client, ['EVENT', subscriptionId, event]);
+      }
+    });
+  });
+}
+
+function handleReq(ws: RelaySocket, subscriptionId: string, filters: Filter[]) {
+  if (typeof subscriptionId !== 'string' || !subscriptionId) {
+    send(ws, ['NOTICE', 'REQ requires a subscription id']);
+    return;
+  }
+
+  if (!filters.every((filter) => typeof filter === 'object' && filter !== null && !Array.isArray(filter))) {
+    send(ws, ['NOTICE', `invalid: filters for ${subscriptionId} must be objects`]);
+    return;
+  }
+
+  ws.subscriptions?.set(subscriptionId, filters);
+  findEvents(filters).forEach((event) => send(ws, ['EVENT', subscriptionId, event]));
+  send(ws, ['EOSE', subscriptionId]);
+}
+
+function handleMessage(ws: RelaySocket, data: string) {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    send(ws, ['NOTICE', 'could not parse message']);
+    return;
+  }
+
+  if (!Array.isArray(message)) {
+    send(ws, ['NOTICE', 'messages must be JSON arrays']);
+    return;
+  }
+
+  // Malformed events and filters make nostr-tools throw; answer the client instead of
+  // letting the error escape the socket listener and take the server down
+  try {
+    switch (message[0]) {
+      case 'EVENT':
+        handleEvent(ws, message[1]);
+        break;
+      case 'REQ':
+        handleReq(ws, message[1], message.slice(2));
+        break;
+      case 'CLOSE':
+        ws.subscriptions?.delete(message[1]);
+        break;
+      default:
+        send(ws, ['NOTICE', `unsupported message type: ${message[0]}`]);
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    if (message[0] === 'EVENT') {
+      send(ws, ['OK', typeof message[1]?.id === 'string' ? message[1].id : '', false, `invalid: ${reason}`]);
+    } else {
+      send(ws, ['NOTICE', `invalid: ${reason}`]);
+    }
+  }
+}
+
+/**
+ * Whether the server should run the local relay instead of using public relays.
+ * Only in development and tests: in production notes must reach real relays.
+ */
+export function isLocalRelayEnabled(): boolean {
+  if (process.env.NOSTR_LOCAL_RELAY !== 'true') {
+    return false;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    console.error('Ignoring NOSTR_LOCAL_RELAY in production');
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Start the in-process relay, if it isn't running yet
+ * @param port Port to listen on (defaults to NOSTR_LOCAL_RELAY_PORT, then 7777; 0 picks a free port)
+ * @returns The relay's URL, e.g. ws://127.0.0.1:7777
+ */
+export async function startLocalRelay(port?: number): Promise<string> {
+  if (!server) {
+    const listenPort = port ?? (parseInt(process.env.NOSTR_LOCAL_RELAY_PORT || '', 10) || DEFAULT_LOCAL_RELAY_PORT);
+    const relayServer = new WebSocketServer({ host: '127.0.0.1', port: listenPort });
+
+    await new Promise<void>((resolve, reject) => {
+      relayServer.once('listening', () => resolve());
+      relayServer.once('error', reject);
+    });
+
+    relayServer.on('connection', (ws: RelaySocket) => {
+      ws.subscriptions = new Map();
+      ws.on('message', (data) => handleMessage(ws, data.toString()));
+      ws.on('error', (error) => console.error('Local relay socket error:', error));
+    });
+    server = relayServer;
+  }
+
+  const address = server.address();
+  const url = `ws://127.0.0.1:${typeof address === 'object' && address ? address.port : port}`;
+  console.log(`Local Nostr relay listening at ${url} (${events.length} stored events)`);
+  return url;
+}
+
+/**
+ * Stop the in-process relay and forget its events
+ */
+export async function stopLocalRelay(): Promise<void> {
+  if (!server) {
+    return;
+  }
+
+  const relayServer = server;
+  server = null;
+  events = [];
+  relayServer.clients.forEach((client) => client.terminate());
+  await new Promise<void>((resolve) => relayServer.close(() => resolve()));
+  console.log('Local Nostr relay stopped');
+}
@@ -0,0 +1,38 @@
+// NIP-05 identifiers (name@domain) map to Nostr pubkeys through /.well-known/nostr.json
+
+const NIP05_TIMEOUT_MS = 5000;
+
+/**
+ * Look up the pubkey behind a NIP-05 identifier
+ * @param identifier The identifier, e.g. "alice@example.com" ("_@example.com" for the domain itself)
+ * @returns The hex pubkey, or null if the domain doesn't list the name
+ */
+export async function lookupNip05(identifier: string): Promise<string | null> {
+  const [name, domain, ...extra] = identifier.trim().toLowerCase().split('@');
+  if (!name || !domain || extra.length || !/^[a-z0-9._-]+$/.test(name)) {
+    console.error(`Invalid NIP-05 identifier: ${identifier}`);
+    return null;
+  }
+
+  try {
+    // NIP-05 forbids following redirects
+    const url = `https://${domain}/.well-known/nostr.json?name=${encodeURIComponent(name)}`;
+    const response = await fetch(url, { redirect: 'error', signal: AbortSignal.timeout(NIP05_TIMEOUT_MS) });
+    if (!response.ok) {
+      console.log(`NIP-05 lookup for ${identifier} failed with status ${response.status}`);
+      return null;
+    }
+
+    const data = await response.json() as { names?: Record<string, string> };
+    const pubkey = data.names?.[name];
+    if (typeof pubkey !== 'string' || !/^[0-9a-f]{64}$/.test(pubkey)) {
+      console.log(`${domain} doesn't list a valid pubkey for ${name}`);
+      return null;
+    }
+
+    return pubkey;
+  } catch (error) {
+    console.error(`Error looking up NIP-05 identifier ${identifier}:`, error);
+    return null;
+  }
+}
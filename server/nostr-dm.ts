@@ -1,4 +1,5 @@
-import { SimplePool, finalizeEvent, getPublicKey, nip19, nip04, type Event } from 'nostr-tools';
+import { finalizeEvent, getPublicKey, nip19, nip04, type Event } from 'nostr-tools';
+import { publishToRelays } from './relay-manager';
 import WebSocket from 'ws';
 
 // Use WebSocket polyfill for Node.js environment
@@ -6,25 +7,6 @@ if (typeof global !== 'undefined') {
   (global as any).WebSocket = WebSocket;
 }
 
-// List of Nostr relays to publish to - using more relays for better delivery
-const NOSTR_RELAYS = [
-  'wss://nostr.mutinywallet.com',
-  'wss://relay.mutinywallet.com',
-  'wss://relay.snort.social',
-  'wss://nos.lol',
-  'wss://nostr.fmt.wiz.biz',
-  'wss://relay.damus.io',
-  'wss://relay.primal.net',
-  'wss://nostr.wine',
-  'wss://relay.nostr.band',
-  'wss://nostr.zbd.gg',
-  'wss://relay.nos.social',
-  'wss://relay.current.fyi'
-];
-
-// Initialize Nostr connection pool
-const pool = new SimplePool();
-
 // Send a direct message to a Nostr user
 export async function sendNostrDM(recipientPubkey: string, message: string): Promise<boolean> {
   try {
@@ -95,13 +77,14 @@ export async function sendNostrDM(recipientPubkey: string, message: string): Pro
     const signedEvent = finalizeEvent(dmEvent, hexKey as unknown as Uint8Array);
     console.log(`Signed event with ID: ${signedEvent.id}`);
 
-    // Publish to relays
-    console.log(`Publishing to ${NOSTR_RELAYS.length} relays...`);
-    const pubs = pool.publish(NOSTR_RELAYS, signedEvent);
+    // Publish to the DM relays
+    const results = await publishToRelays('dm', signedEvent);
     
     try {
-      // Wait for at least one successful publication
-      await Promise.any(pubs);
+      // Need at least one successful publication
+      if (!results.some((result) => result.success)) {
+        throw new Error('No relay accepted the DM');
+      }
       console.log(`DM successfully published to at least one relay`);
       
       // Log the PIN for debugging
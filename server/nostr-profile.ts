@@ -1,60 +1,84 @@
-import { nip19, SimplePool, type Event } from 'nostr-tools';
-import { setupNostrPool } from './nostr-util';
+import { nip19, type Event } from 'nostr-tools';
+import { queryRelays } from './relay-manager';
+import { getCachedProfileEvent } from './profile-cache';
+
+// How long to wait for each relay to send stored profile events
+const PROFILE_QUERY_WAIT_MS = 6000;
+
+// What we show about a Nostr user, from their latest profile metadata (kind 0)
+export interface NostrProfile {
+  name?: string;
+  displayName?: string;
+  picture?: string; // Avatar URL
+  nip05?: string;
+  lightningAddress: string | null; // lud16, or a lud06 LNURL
+}
+
+/**
+ * Fetch the most recent profile metadata event for a pubkey from relays
+ * @param pubkey The hex pubkey
+ * @param relayHints Extra relays to ask, e.g. from an nprofile
+ * @returns The latest kind 0 event, or null if there is none
+ */
+async function fetchProfileEventFromRelays(pubkey: string, relayHints: string[]): Promise<Event | null> {
+  // Look up the profile metadata (kind 0) events, including on any relays the recipient told us about
+  console.log(`Looking up profile metadata for pubkey: ${pubkey}`);
+  const profileEvents = await queryRelays('profile', { kinds: [0], authors: [pubkey] }, {
+    maxWait: PROFILE_QUERY_WAIT_MS,
+    extraRelays: relayHints
+  });
+
+  if (!profileEvents.length) {
+    console.log('No profile metadata found');
+    return null;
+  }
 
-// Relays to query for profile information
-const PROFILE_RELAYS = [
-  'wss://relay.damus.io',
-  'wss://nos.lol',
-  'wss://relay.nostr.band',
-  'wss://relay.snort.social',
-  'wss://relay.current.fyi'
-];
+  // Sort by created_at to get the most recent event
+  profileEvents.sort((a, b) => b.created_at - a.created_at);
+  return profileEvents[0];
+}
 
 /**
- * Get a Lightning Address from a Nostr npub
+ * Get the most recent profile metadata event for an npub, from the profile cache
+ * when we've seen it before
  * @param npub The npub to look up
- * @returns The Lightning Address if found, or null
+ * @param relayHints Extra relays to ask, e.g. from an nprofile
+ * @returns The latest kind 0 event, or null if there is none
  */
-export async function getLightningAddressFromNpub(npub: string): Promise<string | null> {
+async function getLatestProfileEvent(npub: string, relayHints: string[]): Promise<Event | null> {
+  // Decode the npub to get the hex public key
+  let pubkey: string;
   try {
-    // Decode the npub to get the hex public key
-    let pubkey: string;
-    try {
-      const decoded = nip19.decode(npub);
-      if (decoded.type !== 'npub') {
-        console.error('Invalid npub format');
-        return null;
-      }
-      pubkey = decoded.data as string;
-    } catch (e) {
-      console.error('Error decoding npub:', e);
+    const decoded = nip19.decode(npub);
+    if (decoded.type !== 'npub') {
+      console.error('Invalid npub format');
       return null;
     }
+    pubkey = decoded.data as string;
+  } catch (e) {
+    console.error('Error decoding npub:', e);
+    return null;
+  }
 
-    // Set up Nostr pool
-    const pool = setupNostrPool(PROFILE_RELAYS);
-
-    // Look up the profile metadata (kind 0) events
-    console.log(`Looking up profile metadata for pubkey: ${pubkey}`);
-    const profileEvents = await getProfileEvents(pool, pubkey);
+  return getCachedProfileEvent(pubkey, () => fetchProfileEventFromRelays(pubkey, relayHints));
+}
 
-    if (!profileEvents.length) {
-      console.log('No profile metadata found');
-      pool.close(PROFILE_RELAYS);
+/**
+ * Get a Lightning Address from a Nostr npub
+ * @param npub The npub to look up
+ * @param relayHints Extra relays to ask, e.g. from an nprofile
+ * @returns The Lightning Address if found, or null
+ */
+export async function getLightningAddressFromNpub(npub: string, relayHints: string[] = []): Promise<string | null> {
+  try {
+    const latestProfile = await getLatestProfileEvent(npub, relayHints);
+    if (!latestProfile) {
       return null;
     }
 
-    // Sort by created_at to get the most recent event
-    profileEvents.sort((a, b) => b.created_at - a.created_at);
-    const latestProfile = profileEvents[0];
-
     // Extract lightning address from profile metadata
     const lightningAddress = extractLightningAddress(latestProfile);
     console.log(`Lightning address extracted: ${lightningAddress}`);
-
-    // Clean up pool
-    pool.close(PROFILE_RELAYS);
-    
     return lightningAddress;
   } catch (error) {
     console.error('Error getting Lightning Address from npub:', error);
@@ -63,77 +87,30 @@ export async function getLightningAddressFromNpub(npub: string): Promise<string
 }
 
 /**
- * Get profile events (kind 0) for a given pubkey
+ * Get everything we show about a Nostr user in one lookup
+ * @param npub The npub to look up
+ * @param relayHints Extra relays to ask, e.g. from an nprofile
+ * @returns The profile, or null if none was found
  */
-async function getProfileEvents(pool: SimplePool, pubkey: string): Promise<Event[]> {
-  // SimplePool has different methods across versions - let's use a promise based approach
-  // that works with many versions of nostr-tools
-  return new Promise((resolve) => {
-    const events: Event[] = [];
-    
-    // Create a timeout to ensure we don't wait forever
-    const timeout = setTimeout(() => {
-      console.log('Timeout reached while fetching profile events');
-      resolve(events);
-    }, 6000);
-    
-    try {
-      // Use the latest method signatures
-      let subscription;
-      
-      try {
-        // Try using subscribeMany (newer versions)
-        subscription = pool.subscribeMany(
-          PROFILE_RELAYS,
-          [{ kinds: [0], authors: [pubkey] }],
-          {
-            // Event handler
-            onevent: (event: Event) => {
-              events.push(event);
-            },
-            // End of stored events handler
-            oneose: () => {
-              clearTimeout(timeout);
-              if (subscription && typeof subscription.close === 'function') {
-                subscription.close();
-              }
-              resolve(events);
-            }
-          }
-        );
-      } catch (err) {
-        console.log('Error with subscribeMany, falling back to alternate method');
-        
-        // Fallback for compatibility with different versions
-        try {
-          // Try using the sub method (older versions)
-          const sub = pool.sub(PROFILE_RELAYS, [{ kinds: [0], authors: [pubkey] }]);
-          
-          sub.on('event', (event: Event) => {
-            events.push(event);
-          });
-          
-          sub.on('eose', () => {
-            clearTimeout(timeout);
-            sub.unsub();
-            resolve(events);
-          });
-        } catch (subErr) {
-          console.error('Error with sub method as well:', subErr);
-          clearTimeout(timeout);
-          resolve(events);
-        }
-      }
-    } catch (error) {
-      console.error('Error setting up profile event subscription:', error);
-      clearTimeout(timeout);
-      resolve(events);
+export async function getNostrProfile(npub: string, relayHints: string[] = []): Promise<NostrProfile | null> {
+  try {
+    const latestProfile = await getLatestProfileEvent(npub, relayHints);
+    if (!latestProfile) {
+      return null;
     }
-  });
+
+    return {
+      ...extractProfileInfo(latestProfile),
+      lightningAddress: extractLightningAddress(latestProfile)
+    };
+  } catch (error) {
+    console.error('Error getting Nostr profile from npub:', error);
+    return null;
+  }
 }
 
 /**
- * Extract Lightning Address from a Nostr profile metadata event
+ * Extract the Lightning Address (or LNURL) from a Nostr profile metadata event
  */
 function extractLightningAddress(event: Event): string | null {
   try {
@@ -150,6 +127,11 @@ function extractLightningAddress(event: Event): string | null {
       return content.lightning_address;
     }
     
+    // Older profiles only publish a bech32 LNURL (LUD-06), which we can pay just the same
+    if (typeof content.lud06 === 'string' && content.lud06.toLowerCase().startsWith('lnurl1')) {
+      return content.lud06;
+    }
+    
     // No Lightning Address found
     return null;
   } catch (error) {
@@ -163,14 +145,17 @@ function extractLightningAddress(event: Event): string | null {
  * @param event The Nostr event (kind 0) to extract profile info from
  * @returns Object containing profile name and other metadata
  */
-export function extractProfileInfo(event: Event): { name?: string, displayName?: string } {
+export function extractProfileInfo(event: Event): { name?: string, displayName?: string, picture?: string, nip05?: string } {
   try {
     // Parse the content as JSON
     const content = JSON.parse(event.content);
     
     return {
       name: content.name || undefined,
-      displayName: content.display_name || content.displayName || undefined
+      displayName: content.display_name || content.displayName || undefined,
+      // Only web images are safe to show as avatars
+      picture: typeof content.picture === 'string' && /^https:\/\//i.test(content.picture) ? content.picture : undefined,
+      nip05: typeof content.nip05 === 'string' ? content.nip05 : undefined
     };
   } catch (error) {
     console.error('Error parsing profile content:', error);
@@ -181,49 +166,20 @@ export function extractProfileInfo(event: Event): { name?: string, displayName?:
 /**
  * Get profile name from a Nostr npub using profile events
  * @param npub The npub to look up
+ * @param relayHints Extra relays to ask, e.g. from an nprofile
  * @returns The profile name if found, or null
  */
-export async function getProfileNameFromNpub(npub: string): Promise<string | null> {
+export async function getProfileNameFromNpub(npub: string, relayHints: string[] = []): Promise<string | null> {
   try {
-    // Decode the npub to get the hex public key
-    let pubkey: string;
-    try {
-      const decoded = nip19.decode(npub);
-      if (decoded.type !== 'npub') {
-        console.error('Invalid npub format');
-        return null;
-      }
-      pubkey = decoded.data as string;
-    } catch (e) {
-      console.error('Error decoding npub:', e);
+    const latestProfile = await getLatestProfileEvent(npub, relayHints);
+    if (!latestProfile) {
       return null;
     }
 
-    // Set up Nostr pool
-    const pool = setupNostrPool(PROFILE_RELAYS);
-
-    // Look up the profile metadata (kind 0) events
-    console.log(`Looking up profile metadata for pubkey: ${pubkey}`);
-    const profileEvents = await getProfileEvents(pool, pubkey);
-
-    if (!profileEvents.length) {
-      console.log('No profile metadata found');
-      pool.close(PROFILE_RELAYS);
-      return null;
-    }
-
-    // Sort by created_at to get the most recent event
-    profileEvents.sort((a, b) => b.created_at - a.created_at);
-    const latestProfile = profileEvents[0];
-
     // Extract profile info from metadata
     const profileInfo = extractProfileInfo(latestProfile);
     const profileName = profileInfo.displayName || profileInfo.name;
     console.log(`Profile name extracted: ${profileName || 'No name found'}`);
-
-    // Clean up pool
-    pool.close(PROFILE_RELAYS);
-    
     return profileName || null;
   } catch (error) {
     console.error('Error getting profile name from npub:', error);
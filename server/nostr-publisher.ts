@@ -0,0 +1,407 @@
+// Publishes high fives to Nostr as notes, with the payment QR code hosted by whichever
+// image host succeeds first (see qr-image-hosts.ts). Each note points at a structured
+// high five event (HIGH_FIVE_KIND) that other clients can index without parsing text.
+import { finalizeEvent, getPublicKey, nip19, type Event, type Filter } from 'nostr-tools';
+import type { HighFive } from '@shared/schema';
+import { formatSats } from '@shared/honorarium';
+import { parsePaymentInstruction } from '@shared/payment-instructions';
+import { publishToRelays, publishToRelayUrls, queryRelays, type RelayPublishResult } from './relay-manager';
+import { hostQrImage, type QrImageHost } from './qr-image-hosts';
+
+// Addressable (NIP-01 parameterized replaceable) kind for structured high fives. The d tag
+// identifies the high five, so the event can be replaced once payment proof comes in.
+export const HIGH_FIVE_KIND = 30505;
+
+// High five details needed to build its Nostr note
+interface HighFiveNoteDetails {
+  recipient: string;
+  reason: string;
+  sender?: string;
+  lightningInvoice?: string;
+  lightningAddress?: string;
+  amountSats?: number;
+  identifier?: string; // d tag of the structured high five event to point at
+}
+
+// Options for building a note
+export interface HighFiveNoteOptions {
+  imageHosts?: QrImageHost[]; // QR image hosts to try, in order (defaults to NOSTR_QR_IMAGE_HOSTS)
+}
+
+// Outcome of publishing a high five note
+export interface NostrPublishResult {
+  eventId: string | null; // Set if at least one relay accepted the note
+  event: Event | null; // The signed note, if it could be signed
+  relays: RelayPublishResult[]; // One entry per relay that was tried
+  imageUrl: string | null; // Where the QR code image was hosted, if anywhere
+  imageHost: string | null; // Which host stored it
+}
+
+// A signed note plus the QR image it points at
+interface HighFiveNote {
+  event: Event;
+  imageUrl: string | null;
+  imageHost: string | null;
+}
+
+/**
+ * Get the server's Nostr private key as hex
+ * @returns The key, or null if NOSTR_PRIVATE_KEY is missing or invalid
+ */
+export function getServerPrivateKey(): string | null {
+  // Get private key from environment variables
+  const privateKeyHex = process.env.NOSTR_PRIVATE_KEY;
+  if (!privateKeyHex) {
+    console.error('Cannot sign Nostr events: NOSTR_PRIVATE_KEY is not set');
+    return null;
+  }
+
+  // Handle nsec format if needed
+  if (privateKeyHex.startsWith('nsec')) {
+    try {
+      const { data } = nip19.decode(privateKeyHex);
+      return Buffer.from(data as Uint8Array).toString('hex');
+    } catch (e) {
+      console.error('Invalid nsec key:', e);
+      return null;
+    }
+  }
+
+  return privateKeyHex;
+}
+
+/**
+ * Whether a high five was sent without naming the sender
+ */
+function isAnonymousSender(sender?: string | null): boolean {
+  return !sender || sender === 'Anonymous' || sender.includes('send anonymously');
+}
+
+/**
+ * Get the d tag of a high five's structured event
+ * @param highFive The stored high five
+ * @returns Its Nostr identifier, or its ID for rows created before identifiers existed
+ */
+export function getHighFiveIdentifier(highFive: HighFive): string {
+  return highFive.nostrIdentifier || String(highFive.id);
+}
+
+/**
+ * Build and sign a high five note, hosting its QR code first if it has payment instructions
+ */
+async function buildHighFiveNote(highFive: HighFiveNoteDetails, options: HighFiveNoteOptions = {}): Promise<HighFiveNote | null> {
+  const hexKey = getServerPrivateKey();
+  if (!hexKey) {
+    return null;
+  }
+
+  // Get public key from private key
+  const publicKey = getPublicKey(hexKey as unknown as Uint8Array);
+  console.log(`Creating High Five note using public key: ${publicKey}`);
+
+  // Create the base event
+  const event: Event = {
+    kind: 1, // Regular note
+    pubkey: publicKey,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      ['t', 'highfive'],
+    ],
+    content: formatHighFiveContent(highFive),
+    id: '',
+    sig: ''
+  };
+
+  // Add recipient tag if it looks like a npub
+  if (highFive.recipient.startsWith('npub')) {
+    try {
+      const { data } = nip19.decode(highFive.recipient);
+      event.tags.push(['p', data as string]);
+    } catch (e) {
+      console.error('Invalid npub recipient:', e);
+    }
+  }
+
+  // Point at the structured high five event, which may be published after the note
+  if (highFive.identifier) {
+    event.tags.push(['a', `${HIGH_FIVE_KIND}:${publicKey}:${highFive.identifier}`]);
+  }
+
+  // Add the payment QR code to the Nostr post if there's something to pay
+  let imageUrl: string | null = null;
+  let imageHost: string | null = null;
+  if (highFive.lightningInvoice) {
+    console.log(`Adding payment instructions to Nostr post: ${highFive.lightningInvoice.substring(0, 15)}...`);
+    const image = await hostQrImage(highFive.lightningInvoice, hexKey, options.imageHosts);
+
+    if (image) {
+      imageUrl = image.url;
+      imageHost = image.host;
+      event.content = formatHighFiveContent({ ...highFive, qrCodeUrl: image.url });
+      event.tags.push(['lightning', 'See content for full invoice']);
+      event.tags.push(['l', 'Lightning payment available']);
+      event.tags.push(...image.tags);
+      console.log(`Added QR code image from ${image.host} to Nostr post`);
+    } else {
+      // Fall back to just mentioning payment
+      event.content += `\n\nScan QR code in the original High Five app to pay with Bitcoin Lightning.`;
+    }
+  }
+
+  // Sign the event
+  const signedEvent = finalizeEvent(event, hexKey as unknown as Uint8Array);
+  
+  // Log the event ID (this is what you'd use to find the event in a Nostr client)
+  console.log(`Nostr event created with ID: ${signedEvent.id}`);
+  console.log(`Nostr event public key: ${signedEvent.pubkey}`);
+  console.log(`Nostr event tags:`, JSON.stringify(signedEvent.tags));
+
+  return { event: signedEvent, imageUrl, imageHost };
+}
+
+/**
+ * Build and sign the Nostr note for a high five without publishing it
+ * @param highFive The high five to describe
+ * @param options Which QR image hosts to use
+ * @returns The signed event, or null if it couldn't be signed
+ */
+export async function createHighFiveEvent(highFive: HighFiveNoteDetails, options: HighFiveNoteOptions = {}): Promise<Event | null> {
+  const note = await buildHighFiveNote(highFive, options);
+  return note ? note.event : null;
+}
+
+/**
+ * Publish an already signed event to our relays
+ * @param signedEvent The event to publish
+ * @param relays Only publish to these relays instead of all publish relays
+ * @returns The event ID (if at least one relay accepted it) and every relay's outcome
+ */
+export async function publishSignedEvent(signedEvent: Event, relays?: string[]): Promise<NostrPublishResult> {
+  const result: NostrPublishResult = { eventId: null, event: signedEvent, relays: [], imageUrl: null, imageHost: null };
+
+  try {
+    // The relay manager logs each relay's outcome
+    result.relays = relays
+      ? await publishToRelayUrls(relays, signedEvent)
+      : await publishToRelays('publish', signedEvent);
+    const successCount = result.relays.filter((relay) => relay.success).length;
+    const failureCount = result.relays.length - successCount;
+    
+    // Log detailed results
+    console.log(`Nostr publication complete: ${successCount} successes, ${failureCount} failures`);
+    
+    if (successCount > 0) {
+      console.log(`High Five successfully published to Nostr with event ID: ${signedEvent.id}`);
+      console.log(`Search for this event ID in Nostr clients or use https://nostr.watch/e/${signedEvent.id}`);
+      result.eventId = signedEvent.id;
+    } else {
+      console.error(`Failed to publish High Five to any Nostr relay`);
+    }
+  } catch (error) {
+    console.error('Error waiting for Nostr publications:', error);
+  }
+
+  return result;
+}
+
+/**
+ * Build, sign and publish the Nostr note for a high five
+ * @param highFive The high five to publish
+ * @param options Which QR image hosts to use
+ * @returns The event ID (null if no relay accepted it), relay outcomes and the QR image URL
+ */
+export async function publishHighFiveToNostr(highFive: HighFiveNoteDetails, options: HighFiveNoteOptions = {}): Promise<NostrPublishResult> {
+  try {
+    const note = await buildHighFiveNote(highFive, options);
+    if (!note) {
+      console.error('Cannot publish to Nostr: the note could not be signed');
+      return { eventId: null, event: null, relays: [], imageUrl: null, imageHost: null };
+    }
+
+    const result = await publishSignedEvent(note.event);
+    return { ...result, imageUrl: note.imageUrl, imageHost: note.imageHost };
+  } catch (error) {
+    // Don't let Nostr errors affect the main application
+    console.error('Error publishing to Nostr:', error);
+    return { eventId: null, event: null, relays: [], imageUrl: null, imageHost: null };
+  }
+}
+
+/**
+ * Build and sign the structured high five event: who, why, how much, how it's paid,
+ * and proof of payment once we have it
+ * @param highFive The stored high five
+ * @returns The signed event, or null if it couldn't be signed
+ */
+export function createHighFiveRecordEvent(highFive: HighFive): Event | null {
+  const hexKey = getServerPrivateKey();
+  if (!hexKey) {
+    return null;
+  }
+
+  const tags: string[][] = [
+    ['d', getHighFiveIdentifier(highFive)],
+    ['t', 'highfive'],
+    ['recipient', highFive.recipient],
+    ['reason', highFive.reason],
+    // NIP-31 description for clients that don't know this kind
+    ['alt', `High five to ${highFive.profileName || highFive.recipient}: ${highFive.reason}`]
+  ];
+
+  // Nostr recipients and senders are tagged like in NIP-57 zap receipts
+  const recipient = highFive.recipient.startsWith('npub') ? nip19.decode(highFive.recipient) : null;
+  if (recipient?.type === 'npub') {
+    tags.push(['p', recipient.data]);
+  }
+  if (!isAnonymousSender(highFive.sender)) {
+    tags.push(['sender', highFive.sender!]);
+    const sender = highFive.sender!.startsWith('npub') ? nip19.decode(highFive.sender!) : null;
+    if (sender?.type === 'npub') {
+      tags.push(['P', sender.data]);
+    }
+  }
+
+  // Amounts are in millisats, like NIP-57's amount tag
+  if (highFive.amountSats) {
+    tags.push(['amount', String(highFive.amountSats * 1000)]);
+  }
+  if (highFive.fiatAmount && highFive.fiatCurrency) {
+    tags.push(['fiat', highFive.fiatAmount, highFive.fiatCurrency]);
+  }
+
+  const paymentInstruction = highFive.paymentInstructions ? parsePaymentInstruction(highFive.paymentInstructions) : null;
+  if (paymentInstruction) {
+    tags.push(['rail', highFive.zapRequest ? 'zap' : paymentInstruction.type]);
+  }
+  if (highFive.lightningAddress) {
+    tags.push(['lightning_address', highFive.lightningAddress]);
+  }
+
+  // 'unverified' when the payment can't be checked, e.g. BOLT12 offers and on-chain addresses
+  tags.push(['status', highFive.paymentStatus || 'unverified']);
+  if (highFive.paymentPreimage) {
+    tags.push(['proof', 'preimage', highFive.paymentPreimage]);
+  }
+  if (highFive.zapReceiptId) {
+    tags.push(['proof', 'zap_receipt', highFive.zapReceiptId]);
+  }
+
+  // The kind 1 note for people to read
+  if (highFive.nostrEventId) {
+    tags.push(['e', highFive.nostrEventId, '', 'mention']);
+  }
+
+  const event: Event = {
+    kind: HIGH_FIVE_KIND,
+    pubkey: getPublicKey(hexKey as unknown as Uint8Array),
+    created_at: Math.floor(Date.now() / 1000),
+    tags,
+    content: '',
+    id: '',
+    sig: ''
+  };
+  return finalizeEvent(event, hexKey as unknown as Uint8Array);
+}
+
+/**
+ * Publish (or replace) the structured event for a high five
+ * @param highFive The stored high five, with its note's event ID once published
+ * @returns The event ID if at least one relay accepted it, and every relay's outcome
+ */
+export async function publishHighFiveRecord(highFive: HighFive): Promise<NostrPublishResult> {
+  try {
+    const signedEvent = createHighFiveRecordEvent(highFive);
+    if (!signedEvent) {
+      console.error(`Cannot publish structured event for high five ${highFive.id}: it could not be signed`);
+      return { eventId: null, event: null, relays: [], imageUrl: null, imageHost: null };
+    }
+
+    console.log(`Publishing structured event for high five ${highFive.id} (kind ${HIGH_FIVE_KIND}, status ${highFive.paymentStatus || 'unverified'})`);
+    return await publishSignedEvent(signedEvent);
+  } catch (error) {
+    console.error(`Error publishing structured event for high five ${highFive.id}:`, error);
+    return { eventId: null, event: null, relays: [], imageUrl: null, imageHost: null };
+  }
+}
+
+/**
+ * Fetch events matching a filter from our relays
+ * @param filter The Nostr filter to query
+ * @returns The matching events, or an empty list if the relays couldn't be reached
+ */
+export async function queryNostrEvents(filter: Filter): Promise<Event[]> {
+  try {
+    return await queryRelays('publish', filter, { maxWait: 5000 });
+  } catch (error) {
+    console.error('Error querying Nostr relays:', error);
+    return [];
+  }
+}
+
+// Format high five content including QR code image when available
+function formatHighFiveContent(
+  highFive: {
+    recipient: string;
+    reason: string;
+    sender?: string;
+    lightningInvoice?: string;
+    qrCodeUrl?: string;
+    lightningAddress?: string;
+    amountSats?: number;
+  }
+): string {
+  // Anonymous senders are left out; npub senders appear as mentions
+  const isAnonymous = isAnonymousSender(highFive.sender);
+  const senderPart = isAnonymous ? '' : highFive.sender || '';
+  
+  // npub recipients appear as mentions too
+  const recipientPart = highFive.recipient;
+
+  // Offers and on-chain addresses come from a BIP-353 lookup of the ₿tag
+  const paymentInstruction = highFive.lightningInvoice ? parsePaymentInstruction(highFive.lightningInvoice) : null;
+  const isBolt12 = paymentInstruction?.type === 'bolt12';
+  const isOnchain = paymentInstruction?.type === 'onchain' || paymentInstruction?.type === 'silent_payment';
+  
+  // Add the Bitcoin symbol (₿) before ₿tag recipients
+  const displayRecipient = isBolt12 || isOnchain ? `₿${recipientPart}` : recipientPart;
+  
+  // Basic content parts with modified recipient if needed
+  const firstLine = isAnonymous 
+    ? `🖐️ High Five 🖐️ to ${displayRecipient}`
+    : `🖐️ High Five 🖐️ to ${displayRecipient} from ${senderPart}`;
+  
+  const parts = [firstLine];
+  
+  // Mention the honorarium the sender chose, if known
+  if (highFive.amountSats) {
+    parts.push(`Honorarium: ${formatSats(highFive.amountSats)}`);
+  }
+  
+  parts.push('');
+  parts.push(highFive.reason);
+  
+  if (isBolt12 && highFive.qrCodeUrl) {
+    // For BOLT12 offers (from btag DNS lookup)
+    parts.push('');
+    parts.push('You too can send them bitcoin with your BOLT12 wallet:');
+    parts.push('');
+    parts.push(highFive.qrCodeUrl);
+  } else if (isOnchain) {
+    // For ₿tags that only publish on-chain or silent payment addresses
+    const rail = paymentInstruction?.type === 'silent_payment' ? 'with silent payments' : 'on-chain';
+    parts.push('');
+    parts.push(`You too can send them bitcoin ${rail} at ${displayRecipient}`);
+  } else if (highFive.lightningAddress) {
+    // For Lightning Addresses (or lud06 LNURLs) - just include the text, no QR code
+    const kind = highFive.lightningAddress.includes('@') ? 'Lightning Address' : 'LNURL';
+    parts.push('');
+    parts.push(`You too can send them bitcoin to their ${kind}: ${highFive.lightningAddress}`);
+  }
+  
+  // No longer including the payment instruction text since we have the QR code
+  
+  parts.push('');
+  parts.push('#highfives');
+
+  return parts.join('\n');
+}
\ No newline at end of file
@@ -1,138 +0,0 @@
-import { SimplePool, finalizeEvent, getPublicKey, nip19, type Event } from 'nostr-tools';
-import WebSocket from 'ws';
-import * as QRCode from 'qrcode';
-
-// Use WebSocket polyfill for Node.js environment
-if (typeof global !== 'undefined') {
-  (global as any).WebSocket = WebSocket;
-}
-
-// List of Nostr relays to publish to
-const NOSTR_RELAYS = [
-  'wss://relay.damus.io',
-  'wss://nos.lol',
-  'wss://relay.nostr.band'
-];
-
-// Initialize Nostr connection pool
-const pool = new SimplePool();
-
-// Publish a high five to Nostr
-export async function publishHighFiveToNostr(highFive: {
-  recipient: string;
-  reason: string;
-  amount: number;
-  sender?: string;
-  lightningInvoice?: string;
-}): Promise<void> {
-  try {
-    // Get private key from environment variables
-    const privateKeyHex = process.env.NOSTR_PRIVATE_KEY;
-    if (!privateKeyHex) {
-      console.error('Cannot publish to Nostr: NOSTR_PRIVATE_KEY is not set');
-      return;
-    }
-
-    // Handle nsec format if needed
-    let hexKey = privateKeyHex;
-    if (privateKeyHex.startsWith('nsec')) {
-      try {
-        const { data } = nip19.decode(privateKeyHex);
-        hexKey = data as string;
-      } catch (e) {
-        console.error('Invalid nsec key:', e);
-        return;
-      }
-    }
-
-    // Get public key from private key
-    const publicKey = getPublicKey(hexKey as unknown as Uint8Array);
-    console.log(`Publishing High Five to Nostr using public key: ${publicKey}`);
-
-    // Generate QR code as data URL
-    let qrCodeDataUrl = '';
-    if (highFive.lightningInvoice) {
-      qrCodeDataUrl = await QRCode.toDataURL(highFive.lightningInvoice, {
-        errorCorrectionLevel: 'H',
-        margin: 1,
-        width: 300
-      });
-      console.log('Generated QR code');
-    }
-
-    // Create the content of the Nostr post
-    const content = formatHighFiveContent(highFive, qrCodeDataUrl);
-
-    // Create an unsigned event
-    const unsignedEvent: Event = {
-      kind: 1, // Regular note
-      pubkey: publicKey,
-      created_at: Math.floor(Date.now() / 1000),
-      tags: [
-        ['t', 'highfive'],
-        ['amount', highFive.amount.toString()]
-      ],
-      content,
-      id: '',
-      sig: ''
-    };
-
-    // Add recipient tag if it looks like a npub
-    if (highFive.recipient.startsWith('npub')) {
-      try {
-        const { data } = nip19.decode(highFive.recipient);
-        unsignedEvent.tags.push(['p', data as string]);
-      } catch (e) {
-        console.error('Invalid npub recipient:', e);
-      }
-    }
-
-    // Sign the event with the private key
-    const signedEvent = finalizeEvent(unsignedEvent, hexKey as unknown as Uint8Array);
-
-    // Publish to all configured relays
-    const pubs = pool.publish(NOSTR_RELAYS, signedEvent);
-    
-    // Wait for at least one relay to accept the event
-    await Promise.any(pubs);
-    
-    console.log('High Five successfully published to Nostr');
-  } catch (error) {
-    // Don't let Nostr errors affect the main application
-    console.error('Error publishing to Nostr:', error);
-  }
-}
-
-// Format high five content with embedded QR code
-function formatHighFiveContent(
-  highFive: {
-    recipient: string;
-    reason: string;
-    amount: number;
-    sender?: string;
-  },
-  qrCodeDataUrl?: string
-): string {
-  const parts = [
-    `🖐️ High Five of ${highFive.amount} sats`,
-    `To: ${highFive.recipient}`,
-    highFive.sender ? `From: ${highFive.sender}` : 'From: Anonymous',
-    '',
-    highFive.reason
-  ];
-
-  // Add QR code if available
-  if (qrCodeDataUrl) {
-    parts.push('');
-    parts.push('Scan this QR code to send Bitcoin:');
-    parts.push('');
-    // The QR code image directly embedded in the content
-    parts.push(`![QR Code](${qrCodeDataUrl})`);
-  }
-
-  // Add hashtag
-  parts.push('');
-  parts.push('#highfives');
-
-  return parts.join('\n');
-}
\ No newline at end of file
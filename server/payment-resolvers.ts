@@ -0,0 +1,411 @@
+import { nip19 } from 'nostr-tools';
+import { parsePaymentInstruction, type PaymentInstruction, type PaymentInstructionType } from '@shared/payment-instructions';
+import { parseBip21, encodeBip21, formatBip21Amount } from '@shared/bip21';
+import { resolveBip353 } from './dns-util';
+import { getInvoiceFromLightningAddress, getPayLimitsFromLightningAddress, isAmountWithinLimits, type PayerInfo } from './lightning-tool';
+import { getNostrProfile } from './nostr-profile';
+import { lookupNip05 } from './nip05';
+import { classifyRecipient, parseNostrRecipient, type NostrRecipient, type RecipientInterpretation } from '@shared/recipient';
+
+// Order resolvers run in unless PAYMENT_RESOLVERS lists them differently
+const DEFAULT_RESOLVER_ORDER = ['static', 'bip353', 'lightning-address', 'nip05', 'nostr-profile'];
+
+// What the sender wants to pay, and to whom
+export interface ResolveRequest {
+  recipient: string; // ₿tag, Lightning Address, NIP-05 identifier, npub, nprofile or hex pubkey
+  amountSats: number;
+  comment: string;
+  payer?: PayerInfo;
+}
+
+// Payment instructions as every endpoint returns them: the string to scan plus what it is
+export interface DescribedPaymentInstructions {
+  paymentInstructions: string;
+  paymentInstruction: PaymentInstruction;
+  paymentType: PaymentInstructionType;
+}
+
+export interface ResolvedPayment extends DescribedPaymentInstructions {
+  interpretation: RecipientInterpretation;
+  lightningAddress?: string;
+  profileName?: string;
+  recipientNpub?: string; // Set when the recipient was resolved as a Nostr identity
+}
+
+// Why an amount was refused, with the range the recipient accepts
+export interface AmountOutOfRangeError {
+  message: string;
+  details: string;
+  minSats: number;
+  maxSats: number;
+}
+
+export type ResolverOutcome =
+  | { status: 'resolved'; payment: ResolvedPayment }
+  | { status: 'skipped'; reason: string } // The resolver doesn't apply to this recipient
+  | { status: 'failed'; reason: string; amountError?: AmountOutOfRangeError };
+
+export interface PaymentResolver {
+  name: string;
+  interpretation: RecipientInterpretation; // What the resolver takes the recipient to be
+  timeoutMs: number;
+  resolve(request: ResolveRequest): Promise<ResolverOutcome>;
+}
+
+// One step of a resolution, as returned to clients
+export interface ResolverTraceEntry {
+  resolver: string;
+  status: 'resolved' | 'skipped' | 'failed' | 'timeout';
+  reason?: string;
+  durationMs: number;
+}
+
+export interface ResolutionResult {
+  payment: ResolvedPayment | null;
+  trace: ResolverTraceEntry[];
+  amountError?: AmountOutOfRangeError; // Set when a recipient was found but refused the amount
+  candidates?: ResolvedPayment[]; // Set instead of payment when user@domain matched more than one way
+}
+
+/**
+ * Parse raw payment instructions into the fields endpoints return
+ * @param paymentInstructions An invoice, offer or bitcoin: URI
+ * @returns The described instructions, or null if they contain no payment method we support
+ */
+export function describePaymentInstructions(paymentInstructions: string): DescribedPaymentInstructions | null {
+  const paymentInstruction = parsePaymentInstruction(paymentInstructions);
+  if (!paymentInstruction) {
+    console.error(`Unrecognised payment instructions: ${paymentInstructions.substring(0, 30)}...`);
+    return null;
+  }
+  return { paymentInstructions, paymentInstruction, paymentType: paymentInstruction.type };
+}
+
+/**
+ * Describe BIP-353 payment instructions for the honorarium. On-chain and silent payment
+ * URIs get the amount and a message added so the sender's wallet fills them in;
+ * offers are returned as published.
+ * @param uri The bitcoin: URI from the ₿tag's TXT record
+ * @param amount The honorarium in sats
+ * @param comment Message for the payment
+ * @returns The described instructions, or null if they contain no payment method we support
+ */
+function describeBip353Instructions(uri: string, amount: number, comment: string): DescribedPaymentInstructions | null {
+  const described = describePaymentInstructions(uri);
+  if (!described || (described.paymentType !== 'onchain' && described.paymentType !== 'silent_payment')) {
+    return described;
+  }
+
+  const parsed = parseBip21(uri);
+  if (!parsed) {
+    return described;
+  }
+  return describePaymentInstructions(encodeBip21({ ...parsed, amount: formatBip21Amount(amount), message: comment }));
+}
+
+/**
+ * Explain why an invoice couldn't be generated when the amount is outside
+ * the range the recipient's LNURL-pay service accepts
+ * @param lightningAddress The recipient's Lightning Address
+ * @param amount The requested amount in sats
+ * @returns An error body including the accepted range, or null if the amount wasn't the problem
+ */
+export async function getAmountOutOfRangeError(lightningAddress: string, amount: number): Promise<AmountOutOfRangeError | null> {
+  const limits = await getPayLimitsFromLightningAddress(lightningAddress);
+  if (!limits || isAmountWithinLimits(amount, limits)) {
+    return null;
+  }
+
+  return {
+    message: "Amount not accepted by recipient",
+    details: `This recipient accepts between ${limits.minSats.toLocaleString('en-US')} and ${limits.maxSats.toLocaleString('en-US')} sats`,
+    minSats: limits.minSats,
+    maxSats: limits.maxSats
+  };
+}
+
+/**
+ * Request an invoice from a Lightning Address, explaining what went wrong if there is none
+ */
+async function resolveLightningAddressInvoice(
+  lightningAddress: string,
+  request: ResolveRequest,
+  extra: Partial<ResolvedPayment> & Pick<ResolvedPayment, 'interpretation'>
+): Promise<ResolverOutcome> {
+  const invoice = await getInvoiceFromLightningAddress(lightningAddress, request.amountSats, request.comment, request.payer);
+  const described = invoice ? describePaymentInstructions(invoice) : null;
+  if (described) {
+    return { status: 'resolved', payment: { ...described, lightningAddress, ...extra } };
+  }
+
+  const amountError = await getAmountOutOfRangeError(lightningAddress, request.amountSats);
+  if (amountError) {
+    return { status: 'failed', reason: amountError.details, amountError };
+  }
+  return { status: 'failed', reason: `${lightningAddress} didn't issue an invoice` };
+}
+
+/**
+ * Pay whoever owns a Nostr pubkey through the Lightning Address in their profile
+ */
+async function resolveNostrProfile(recipient: NostrRecipient, request: ResolveRequest): Promise<ResolverOutcome> {
+  const profile = await getNostrProfile(recipient.npub, recipient.relays);
+  if (!profile?.lightningAddress) {
+    return { status: 'failed', reason: 'The Nostr profile has no Lightning Address (lud16) or LNURL (lud06)' };
+  }
+
+  return resolveLightningAddressInvoice(profile.lightningAddress, request, {
+    interpretation: 'nostr',
+    profileName: profile.displayName || profile.name,
+    recipientNpub: recipient.npub
+  });
+}
+
+function isUserAtDomain(recipient: string): boolean {
+  return classifyRecipient(recipient) === 'user_at_domain';
+}
+
+// Payment instructions pinned in STATIC_PAYMENT_INSTRUCTIONS, e.g. {"alice@example.com": "bitcoin:?lno=..."}
+let staticInstructions: Record<string, string> | null = null;
+
+function getStaticInstructions(): Record<string, string> {
+  if (staticInstructions === null) {
+    staticInstructions = {};
+    if (process.env.STATIC_PAYMENT_INSTRUCTIONS) {
+      try {
+        const parsed = JSON.parse(process.env.STATIC_PAYMENT_INSTRUCTIONS) as Record<string, string>;
+        Object.entries(parsed).forEach(([recipient, instructions]) => {
+          staticInstructions![recipient.toLowerCase()] = instructions;
+        });
+      } catch (error) {
+        console.error('STATIC_PAYMENT_INSTRUCTIONS is not valid JSON:', error);
+      }
+    }
+  }
+  return staticInstructions;
+}
+
+export const staticResolver: PaymentResolver = {
+  name: 'static',
+  interpretation: 'btag',
+  timeoutMs: 1000,
+  async resolve(request) {
+    const instructions = getStaticInstructions()[request.recipient.replace(/^₿/, '').toLowerCase()];
+    if (!instructions) {
+      return { status: 'skipped', reason: 'No configured payment instructions for this recipient' };
+    }
+
+    const described = describePaymentInstructions(instructions);
+    return described
+      ? { status: 'resolved', payment: { ...described, interpretation: 'btag' } }
+      : { status: 'failed', reason: 'Configured payment instructions are not a supported payment method' };
+  }
+};
+
+export const bip353Resolver: PaymentResolver = {
+  name: 'bip353',
+  interpretation: 'btag',
+  timeoutMs: 10000,
+  async resolve(request) {
+    if (!isUserAtDomain(request.recipient)) {
+      return { status: 'skipped', reason: 'Not a ₿tag' };
+    }
+
+    const result = await resolveBip353(request.recipient);
+    if (result.status === 'not_found') {
+      return { status: 'failed', reason: 'No BIP-353 payment instructions in DNS' };
+    }
+    if (result.status === 'rejected') {
+      return { status: 'failed', reason: result.reason };
+    }
+
+    const described = describeBip353Instructions(result.uri, request.amountSats, request.comment);
+    return described
+      ? { status: 'resolved', payment: { ...described, interpretation: 'btag', lightningAddress: request.recipient.replace(/^₿/, '') } }
+      : { status: 'failed', reason: 'BIP-353 record has no supported payment method' };
+  }
+};
+
+export const lightningAddressResolver: PaymentResolver = {
+  name: 'lightning-address',
+  interpretation: 'btag',
+  timeoutMs: 15000,
+  async resolve(request) {
+    if (!isUserAtDomain(request.recipient)) {
+      return { status: 'skipped', reason: 'Not a Lightning Address' };
+    }
+    return resolveLightningAddressInvoice(request.recipient.replace(/^₿/, ''), request, { interpretation: 'btag' });
+  }
+};
+
+export const nip05Resolver: PaymentResolver = {
+  name: 'nip05',
+  interpretation: 'nostr',
+  timeoutMs: 15000,
+  async resolve(request) {
+    if (!isUserAtDomain(request.recipient)) {
+      return { status: 'skipped', reason: 'Not a NIP-05 identifier' };
+    }
+
+    const pubkey = await lookupNip05(request.recipient.replace(/^₿/, ''));
+    if (!pubkey) {
+      return { status: 'failed', reason: 'No Nostr pubkey published for this NIP-05 identifier' };
+    }
+    return resolveNostrProfile({ pubkey, npub: nip19.npubEncode(pubkey), relays: [] }, request);
+  }
+};
+
+export const nostrProfileResolver: PaymentResolver = {
+  name: 'nostr-profile',
+  interpretation: 'nostr',
+  timeoutMs: 15000,
+  async resolve(request) {
+    const recipient = parseNostrRecipient(request.recipient);
+    if (!recipient) {
+      return { status: 'skipped', reason: 'Not an npub, nprofile or hex pubkey' };
+    }
+    return resolveNostrProfile(recipient, request);
+  }
+};
+
+const RESOLVERS: Record<string, PaymentResolver> = Object.fromEntries(
+  [staticResolver, bip353Resolver, lightningAddressResolver, nip05Resolver, nostrProfileResolver]
+    .map((resolver) => [resolver.name, resolver])
+);
+
+/**
+ * Get the resolvers to run, in order. PAYMENT_RESOLVERS can reorder or disable them,
+ * e.g. "lightning-address,bip353".
+ */
+export function getConfiguredResolvers(): PaymentResolver[] {
+  const names = process.env.PAYMENT_RESOLVERS
+    ? process.env.PAYMENT_RESOLVERS.split(',').map((name) => name.trim()).filter(Boolean)
+    : DEFAULT_RESOLVER_ORDER;
+
+  return names.flatMap((name) => {
+    if (!RESOLVERS[name]) {
+      console.error(`Unknown payment resolver in PAYMENT_RESOLVERS: ${name}`);
+      return [];
+    }
+    return [RESOLVERS[name]];
+  });
+}
+
+/**
+ * Run a resolver, giving up once its timeout passes
+ */
+async function runResolver(resolver: PaymentResolver, request: ResolveRequest): Promise<ResolverOutcome | 'timeout'> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<'timeout'>((resolve) => {
+    timer = setTimeout(() => resolve('timeout'), resolver.timeoutMs);
+  });
+
+  try {
+    return await Promise.race([resolver.resolve(request), timeoutPromise]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Find payment instructions for a recipient by trying each resolver in turn
+ * @param request The recipient, amount and invoice details
+ * @param resolvers The resolvers to try (defaults to the configured chain)
+ * @returns The first resolved payment, if any, and a trace of every resolver that ran
+ */
+export async function resolvePaymentInstructions(
+  request: ResolveRequest,
+  resolvers: PaymentResolver[] = getConfiguredResolvers()
+): Promise<ResolutionResult> {
+  const trace: ResolverTraceEntry[] = [];
+  let amountError: AmountOutOfRangeError | undefined;
+
+  for (const resolver of resolvers) {
+    const startedAt = Date.now();
+    let outcome: ResolverOutcome | 'timeout';
+    try {
+      outcome = await runResolver(resolver, request);
+    } catch (error) {
+      outcome = { status: 'failed', reason: error instanceof Error ? error.message : String(error) };
+    }
+    const durationMs = Date.now() - startedAt;
+
+    if (outcome === 'timeout') {
+      trace.push({ resolver: resolver.name, status: 'timeout', reason: `No answer within ${resolver.timeoutMs / 1000}s`, durationMs });
+      console.log(`Payment resolver ${resolver.name} timed out for ${request.recipient}`);
+      continue;
+    }
+
+    if (outcome.status === 'resolved') {
+      trace.push({ resolver: resolver.name, status: 'resolved', durationMs });
+      console.log(`Payment resolver ${resolver.name} resolved ${request.recipient} (${outcome.payment.paymentType})`);
+      return { payment: outcome.payment, trace };
+    }
+
+    trace.push({ resolver: resolver.name, status: outcome.status, reason: outcome.reason, durationMs });
+    if (outcome.status === 'failed') {
+      console.log(`Payment resolver ${resolver.name} failed for ${request.recipient}: ${outcome.reason}`);
+      amountError = amountError ?? outcome.amountError;
+    }
+  }
+
+  return { payment: null, trace, amountError };
+}
+
+/**
+ * Find payment instructions for a recipient, working out what kind of recipient it is.
+ * user@domain can be a ₿tag/Lightning Address or a NIP-05 name, so unless the sender said
+ * which they meant, both are tried at once. If both match, the sender has to pick one of
+ * the returned candidates.
+ * @param request The recipient, amount and invoice details
+ * @param interpretation What the sender says the recipient is, if they said
+ * @returns The resolved payment, the candidates to pick from, or why nothing matched
+ */
+export async function resolveRecipient(
+  request: ResolveRequest,
+  interpretation?: RecipientInterpretation
+): Promise<ResolutionResult> {
+  const resolvers = getConfiguredResolvers();
+  if (interpretation) {
+    return resolvePaymentInstructions(request, resolvers.filter((resolver) => resolver.interpretation === interpretation));
+  }
+  if (!isUserAtDomain(request.recipient)) {
+    return resolvePaymentInstructions(request, resolvers);
+  }
+
+  const [btag, nostr] = await Promise.all([
+    resolvePaymentInstructions(request, resolvers.filter((resolver) => resolver.interpretation === 'btag')),
+    resolvePaymentInstructions(request, resolvers.filter((resolver) => resolver.interpretation === 'nostr'))
+  ]);
+  const trace = [...btag.trace, ...nostr.trace];
+
+  if (btag.payment && nostr.payment) {
+    // A Nostr profile paying to this very Lightning Address is the same person and the
+    // same wallet, so there's nothing to choose; the Nostr match also lets us tag them
+    const btagAddress = btag.payment.lightningAddress?.toLowerCase();
+    if (btag.payment.paymentType === 'bolt11' && btagAddress && btagAddress === nostr.payment.lightningAddress?.toLowerCase()) {
+      return { payment: nostr.payment, trace };
+    }
+    console.log(`${request.recipient} matched both as a ₿tag and as a NIP-05 identifier`);
+    return { payment: null, trace, candidates: [btag.payment, nostr.payment] };
+  }
+
+  const payment = btag.payment || nostr.payment;
+  if (payment) {
+    return { payment, trace };
+  }
+  return { payment: null, trace, amountError: btag.amountError || nostr.amountError };
+}
+
+/**
+ * Explain in one sentence why no resolver found payment instructions
+ * @param trace The resolution trace
+ * @returns e.g. "bip353: No BIP-353 payment instructions in DNS; lightning-address: ..."
+ */
+export function summarizeResolutionFailure(trace: ResolverTraceEntry[]): string {
+  const attempts = trace.filter((entry) => entry.status !== 'skipped');
+  if (!attempts.length) {
+    return 'This recipient is not a ₿tag, Lightning Address, NIP-05 identifier, npub, nprofile or hex pubkey';
+  }
+  return attempts.map((entry) => `${entry.resolver}: ${entry.reason}`).join('; ');
+}
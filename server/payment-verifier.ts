@@ -0,0 +1,132 @@
+import { Invoice } from '@getalby/lightning-tools';
+import type { HighFive, PaymentStatus } from '@shared/schema';
+import { storage } from './storage';
+import { emitHighFiveEvent } from './high-five-events';
+
+// How often pending payments are re-checked against their verify URL
+const VERIFY_INTERVAL_MS = 5000;
+
+// Invoices we handed to clients, keyed by payment request, so a high five created with
+// one of them can be linked back to its LUD-21 verify URL. Once the high five is stored,
+// payments are checked against the verify URL on its row, which survives a restart.
+const issuedInvoices = new Map<string, { verifyUrl: string | null; expiresAt: number | null; lightningAddress: string }>();
+
+let verifierTimer: NodeJS.Timeout | null = null;
+let isVerifying = false;
+
+/**
+ * Remember an invoice generated by the server so it can be verified later
+ * @param invoice The invoice returned by the recipient's LNURL-pay service
+ * @param lightningAddress The Lightning Address or LNURL the invoice was requested from
+ */
+export function rememberIssuedInvoice(invoice: Invoice, lightningAddress: string): void {
+  pruneIssuedInvoices();
+
+  issuedInvoices.set(invoice.paymentRequest, {
+    verifyUrl: invoice.verify,
+    expiresAt: invoice.expiryDate ? invoice.expiryDate.getTime() : null,
+    lightningAddress: lightningAddress.toLowerCase()
+  });
+
+  console.log(`Tracking issued invoice ${invoice.paymentHash} (verify URL: ${invoice.verify ? 'yes' : 'no'})`);
+}
+
+/**
+ * Get the LUD-21 verify URL for an invoice issued by this server
+ * @param paymentRequest The BOLT11 payment request
+ * @param lightningAddress The recipient's Lightning Address or LNURL; an invoice issued for
+ * anyone else (such as the sender's own wallet) is never treated as verifiable
+ * @returns The verify URL, or null if the invoice is unknown, for someone else, or can't be verified
+ */
+export function getVerifyUrlForInvoice(paymentRequest: string, lightningAddress: string | null): string | null {
+  const issued = issuedInvoices.get(paymentRequest);
+  if (!issued || !lightningAddress || issued.lightningAddress !== lightningAddress.toLowerCase()) {
+    return null;
+  }
+  return issued.verifyUrl;
+}
+
+// Drop issued invoices that have expired and were never used for a high five
+function pruneIssuedInvoices() {
+  const now = Date.now();
+  issuedInvoices.forEach((entry, paymentRequest) => {
+    if (entry.expiresAt !== null && entry.expiresAt < now) {
+      issuedInvoices.delete(paymentRequest);
+    }
+  });
+}
+
+/**
+ * Check whether the invoice for a high five has been settled and persist the result
+ * @param highFive The high five to check
+ * @returns The (possibly updated) payment status, or null if it can't be verified
+ */
+export async function checkHighFivePayment(highFive: HighFive): Promise<PaymentStatus | null> {
+  const currentStatus = highFive.paymentStatus as PaymentStatus | null;
+
+  // Only pending invoices with a verify URL need checking
+  if (currentStatus !== 'pending' || !highFive.paymentRequest || !highFive.paymentVerifyUrl) {
+    return currentStatus;
+  }
+
+  try {
+    const invoice = new Invoice({
+      pr: highFive.paymentRequest,
+      verify: highFive.paymentVerifyUrl
+    });
+
+    // isPaid() asks the verify URL whether the invoice has settled
+    if (await invoice.isPaid()) {
+      const updated = await storage.updateHighFivePaymentStatus(highFive.id, 'paid', invoice.preimage);
+      console.log(`✅ Payment verified for high five ${highFive.id}`);
+      emitHighFiveEvent({
+        type: 'paymentReceived',
+        highFiveId: highFive.id,
+        invoice: highFive.paymentRequest,
+        paidAt: updated?.paidAt ?? null
+      });
+      return 'paid';
+    }
+
+    if (invoice.hasExpired()) {
+      await storage.updateHighFivePaymentStatus(highFive.id, 'expired');
+      console.log(`Invoice for high five ${highFive.id} expired without payment`);
+      emitHighFiveEvent({ type: 'expired', highFiveId: highFive.id, invoice: highFive.paymentRequest });
+      return 'expired';
+    }
+  } catch (error) {
+    console.error(`Error verifying payment for high five ${highFive.id}:`, error);
+  }
+
+  return currentStatus;
+}
+
+/**
+ * Start polling the verify URLs of all pending high fives
+ */
+export function startPaymentVerifier(): void {
+  if (verifierTimer) {
+    return;
+  }
+
+  verifierTimer = setInterval(async () => {
+    // A slow verify URL can outlast the interval; never mark the same invoice paid twice
+    if (isVerifying) {
+      return;
+    }
+    isVerifying = true;
+
+    try {
+      const pending = await storage.getHighFivesByPaymentStatus('pending');
+      for (const highFive of pending) {
+        await checkHighFivePayment(highFive);
+      }
+    } catch (error) {
+      console.error('Error checking pending payments:', error);
+    } finally {
+      isVerifying = false;
+    }
+  }, VERIFY_INTERVAL_MS);
+
+  console.log(`Payment verifier started (checking every ${VERIFY_INTERVAL_MS / 1000}s)`);
+}
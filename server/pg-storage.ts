@@ -5,9 +5,18 @@ import {
   highFives,
   type HighFive,
   type InsertHighFive,
+  type PaymentStatus,
+  type PublicationState,
+  profileCache,
+  type ProfileCacheEntry,
+  nostrRelays,
+  type NostrRelay,
+  highFivePublications,
+  type HighFivePublication,
+  type InsertHighFivePublication,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { and, eq, gt, isNotNull, isNull, lte, sql } from "drizzle-orm";
 import { IStorage } from "./storage";
 
 export class PgStorage implements IStorage {
@@ -36,7 +45,22 @@ export class PgStorage implements IStorage {
       createdAt,
       nostrEventId: insertHighFive.nostrEventId ?? null,
       profileName: insertHighFive.profileName ?? null,
-      senderProfileName: insertHighFive.senderProfileName ?? null
+      senderProfileName: insertHighFive.senderProfileName ?? null,
+      paymentRequest: insertHighFive.paymentRequest ?? null,
+      paymentVerifyUrl: insertHighFive.paymentVerifyUrl ?? null,
+      paymentStatus: insertHighFive.paymentStatus ?? null,
+      paymentInstructions: insertHighFive.paymentInstructions ?? null,
+      lightningAddress: insertHighFive.lightningAddress ?? null,
+      publicationPolicy: insertHighFive.publicationPolicy ?? null,
+      publishAfter: insertHighFive.publishAfter ?? null,
+      publicationState: insertHighFive.publicationState ?? null,
+      amountSats: insertHighFive.amountSats ?? null,
+      fiatAmount: insertHighFive.fiatAmount ?? null,
+      fiatCurrency: insertHighFive.fiatCurrency ?? null,
+      nostrEvent: insertHighFive.nostrEvent ?? null,
+      nostrIdentifier: insertHighFive.nostrIdentifier ?? null,
+      zapRequest: insertHighFive.zapRequest ?? null,
+      zapperPubkey: insertHighFive.zapperPubkey ?? null
     }).returning();
     
     return result[0];
@@ -50,6 +74,10 @@ export class PgStorage implements IStorage {
   async getAllHighFives(): Promise<HighFive[]> {
     return await db.select().from(highFives).orderBy(highFives.id);
   }
+
+  async getHighFivesSince(id: number): Promise<HighFive[]> {
+    return await db.select().from(highFives).where(gt(highFives.id, id)).orderBy(highFives.id);
+  }
   
   async updateHighFiveNostrEventId(id: number, nostrEventId: string): Promise<HighFive | undefined> {
     const result = await db
@@ -70,4 +98,171 @@ export class PgStorage implements IStorage {
     
     return result[0];
   }
+  
+  async getHighFivesByPaymentStatus(paymentStatus: PaymentStatus): Promise<HighFive[]> {
+    return await db
+      .select()
+      .from(highFives)
+      .where(eq(highFives.paymentStatus, paymentStatus))
+      .orderBy(highFives.id);
+  }
+  
+  async updateHighFivePaymentStatus(id: number, paymentStatus: PaymentStatus, paymentPreimage?: string | null): Promise<HighFive | undefined> {
+    // Only stamp settlement details when the payment has been verified
+    const settlement = paymentStatus === 'paid'
+      ? { paymentPreimage: paymentPreimage ?? null, paidAt: new Date().toISOString() }
+      : {};
+    
+    const result = await db
+      .update(highFives)
+      .set({ paymentStatus, ...settlement })
+      .where(eq(highFives.id, id))
+      .returning();
+    
+    return result[0];
+  }
+  
+  async updateHighFiveSenderConfirmedAt(id: number, senderConfirmedAt: string): Promise<HighFive | undefined> {
+    const result = await db
+      .update(highFives)
+      .set({ senderConfirmedAt })
+      .where(eq(highFives.id, id))
+      .returning();
+    
+    return result[0];
+  }
+  
+  async getHighFivesByPublicationState(publicationState: PublicationState): Promise<HighFive[]> {
+    return await db
+      .select()
+      .from(highFives)
+      .where(eq(highFives.publicationState, publicationState))
+      .orderBy(highFives.id);
+  }
+  
+  async updateHighFivePublicationState(id: number, publicationState: PublicationState): Promise<HighFive | undefined> {
+    const result = await db
+      .update(highFives)
+      .set({ publicationState })
+      .where(eq(highFives.id, id))
+      .returning();
+    
+    return result[0];
+  }
+  
+  async getHighFivesAwaitingZapReceipt(): Promise<HighFive[]> {
+    return await db
+      .select()
+      .from(highFives)
+      .where(and(isNotNull(highFives.zapRequest), isNull(highFives.zapReceiptId)))
+      .orderBy(highFives.id);
+  }
+  
+  async updateHighFiveZapReceipt(id: number, zapReceiptId: string): Promise<HighFive | undefined> {
+    const result = await db
+      .update(highFives)
+      .set({ zapReceiptId })
+      .where(eq(highFives.id, id))
+      .returning();
+    
+    return result[0];
+  }
+
+  async updateHighFiveInvoice(id: number, paymentRequest: string, paymentVerifyUrl: string | null): Promise<HighFive | undefined> {
+    // A new invoice starts a new payment attempt, so a high five abandoned when the
+    // old one expired goes back in the queue to be published once this one is paid
+    const result = await db
+      .update(highFives)
+      .set({
+        paymentRequest,
+        paymentInstructions: paymentRequest,
+        paymentVerifyUrl,
+        paymentStatus: paymentVerifyUrl ? 'pending' : null,
+        publicationState: sql`CASE WHEN ${highFives.publicationState} = 'abandoned' THEN 'queued' ELSE ${highFives.publicationState} END`
+      })
+      .where(eq(highFives.id, id))
+      .returning();
+    
+    return result[0];
+  }
+
+  async updateHighFiveSeenOnRelays(id: number, seenOnRelays: number): Promise<HighFive | undefined> {
+    const result = await db
+      .update(highFives)
+      .set({ seenOnRelays })
+      .where(eq(highFives.id, id))
+      .returning();
+    
+    return result[0];
+  }
+
+  async updateHighFiveNostrEvent(id: number, nostrEvent: string): Promise<HighFive | undefined> {
+    const result = await db
+      .update(highFives)
+      .set({ nostrEvent })
+      .where(eq(highFives.id, id))
+      .returning();
+    
+    return result[0];
+  }
+
+  async getHighFivesDueForRepublish(now: string): Promise<HighFive[]> {
+    // Timestamps are ISO strings, so they compare correctly as text
+    return await db
+      .select()
+      .from(highFives)
+      .where(and(isNotNull(highFives.nextPublishAttemptAt), lte(highFives.nextPublishAttemptAt, now)))
+      .orderBy(highFives.id);
+  }
+
+  async updateHighFiveRepublishSchedule(id: number, publishAttempts: number, nextPublishAttemptAt: string | null): Promise<HighFive | undefined> {
+    const result = await db
+      .update(highFives)
+      .set({ publishAttempts, nextPublishAttemptAt })
+      .where(eq(highFives.id, id))
+      .returning();
+    
+    return result[0];
+  }
+
+  async addHighFivePublications(publications: InsertHighFivePublication[]): Promise<HighFivePublication[]> {
+    if (publications.length === 0) {
+      return [];
+    }
+    return await db.insert(highFivePublications).values(publications).returning();
+  }
+
+  async getHighFivePublications(highFiveId: number): Promise<HighFivePublication[]> {
+    return await db
+      .select()
+      .from(highFivePublications)
+      .where(eq(highFivePublications.highFiveId, highFiveId))
+      .orderBy(highFivePublications.id);
+  }
+
+  async getProfileCacheEntry(pubkey: string): Promise<ProfileCacheEntry | undefined> {
+    const result = await db.select().from(profileCache).where(eq(profileCache.pubkey, pubkey));
+    return result[0];
+  }
+
+  async upsertProfileCacheEntry(entry: ProfileCacheEntry): Promise<ProfileCacheEntry> {
+    const result = await db
+      .insert(profileCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: profileCache.pubkey,
+        set: {
+          event: entry.event,
+          eventCreatedAt: entry.eventCreatedAt,
+          fetchedAt: entry.fetchedAt
+        }
+      })
+      .returning();
+    
+    return result[0];
+  }
+
+  async getEnabledNostrRelays(): Promise<NostrRelay[]> {
+    return await db.select().from(nostrRelays).where(eq(nostrRelays.enabled, true));
+  }
 }
\ No newline at end of file
@@ -0,0 +1,107 @@
+// Persistent cache of Nostr profile metadata (kind 0), keyed by pubkey.
+// Fresh entries are served straight from storage; stale ones are served too while a
+// background refresh asks the relays again, so known people never wait on relays.
+import type { Event } from 'nostr-tools';
+import { storage } from './storage';
+
+// How long a profile is served without asking the relays again
+const PROFILE_TTL_MS = 60 * 60 * 1000;
+
+// How long a stale profile may still be served while it's refreshed in the background
+const PROFILE_STALE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Pubkeys without a profile are asked about again sooner, in case they just created one
+const MISSING_PROFILE_TTL_MS = 10 * 60 * 1000;
+
+// Fetches the latest kind 0 event for a pubkey from relays
+export type ProfileEventFetcher = () => Promise<Event | null>;
+
+// Refreshes in progress, so concurrent lookups of one pubkey share a single relay query
+const refreshes = new Map<string, Promise<Event | null>>();
+
+function parseCachedEvent(json: string | null): Event | null {
+  if (!json) {
+    return null;
+  }
+  try {
+    return JSON.parse(json) as Event;
+  } catch (error) {
+    console.error('Invalid cached profile event:', error);
+    return null;
+  }
+}
+
+/**
+ * Ask the relays for a pubkey's profile and store the result.
+ * An older event than the one already cached never replaces it.
+ */
+function refreshProfile(pubkey: string, fetchFromRelays: ProfileEventFetcher): Promise<Event | null> {
+  const inProgress = refreshes.get(pubkey);
+  if (inProgress) {
+    return inProgress;
+  }
+
+  const refresh = (async () => {
+    try {
+      const fetched = await fetchFromRelays();
+      const cached = await storage.getProfileCacheEntry(pubkey);
+      const cachedEvent = parseCachedEvent(cached?.event ?? null);
+      const latest = fetched && (!cachedEvent || fetched.created_at >= cachedEvent.created_at) ? fetched : cachedEvent;
+
+      await storage.upsertProfileCacheEntry({
+        pubkey,
+        event: latest ? JSON.stringify(latest) : null,
+        eventCreatedAt: latest ? latest.created_at : null,
+        fetchedAt: new Date().toISOString()
+      });
+      console.log(`Refreshed cached profile for ${pubkey}${latest ? '' : ' (no profile found)'}`);
+      return latest;
+    } catch (error) {
+      console.error(`Error refreshing profile for ${pubkey}:`, error);
+      return null;
+    } finally {
+      refreshes.delete(pubkey);
+    }
+  })();
+
+  refreshes.set(pubkey, refresh);
+  return refresh;
+}
+
+/**
+ * Get the latest profile metadata event for a pubkey, from the cache when possible
+ * @param pubkey The hex pubkey
+ * @param fetchFromRelays Fetches the event from relays on a miss or when it's stale
+ * @returns The kind 0 event, or null if the pubkey has no profile
+ */
+export async function getCachedProfileEvent(pubkey: string, fetchFromRelays: ProfileEventFetcher): Promise<Event | null> {
+  let cached;
+  try {
+    cached = await storage.getProfileCacheEntry(pubkey);
+  } catch (error) {
+    console.error(`Error reading cached profile for ${pubkey}:`, error);
+    return refreshProfile(pubkey, fetchFromRelays);
+  }
+
+  if (!cached) {
+    console.log(`No cached profile for ${pubkey}, asking relays`);
+    return refreshProfile(pubkey, fetchFromRelays);
+  }
+
+  const age = Date.now() - new Date(cached.fetchedAt).getTime();
+  const event = parseCachedEvent(cached.event);
+  const ttl = event ? PROFILE_TTL_MS : MISSING_PROFILE_TTL_MS;
+
+  if (age < ttl) {
+    return event;
+  }
+
+  // Serve what we have while the relays are asked again
+  if (event && age < PROFILE_STALE_MS) {
+    console.log(`Serving stale profile for ${pubkey} while refreshing it`);
+    refreshProfile(pubkey, fetchFromRelays);
+    return event;
+  }
+
+  return refreshProfile(pubkey, fetchFromRelays);
+}
@@ -0,0 +1,142 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import type { HighFive } from '@shared/schema';
+import { MemStorage } from './storage';
+import { loadRelayConfig } from './relay-manager';
+import { createHighFiveEvent, HIGH_FIVE_KIND, queryNostrEvents } from './nostr-publisher';
+import { startLocalRelay, stopLocalRelay } from './local-relay';
+import { publishHighFive, republishHighFive, setPublicationStorage } from './publication-queue';
+
+// Re-broadcasting against the in-process relay, plus a relay nothing listens on that never gets the note
+
+const DEAD_RELAY = 'ws://127.0.0.1:1';
+const MINUTE = 60 * 1000;
+
+// The delay before each re-broadcast, by number of attempts so far; the 15th attempt is the last
+const BACKOFF_SCHEDULE = [1, 2, 4, 8, 16, 32, 60, 60, 60, 60, 60, 60, 60, 60].map((minutes) => minutes * MINUTE);
+
+// Keep everything in memory instead of the database
+const storage = new MemStorage();
+let relayUrl: string;
+
+async function useRelays(publishRelays: string[], minRelays: number) {
+  process.env.NOSTR_PUBLISH_RELAYS = publishRelays.join(',');
+  process.env.NOSTR_MIN_RELAYS = String(minRelays);
+  await loadRelayConfig({ storage });
+}
+
+async function createQueuedHighFive(): Promise<HighFive> {
+  return storage.createHighFive({
+    recipient: 'alice@example.com',
+    reason: 'Running the relay',
+    sender: 'Bob',
+    paymentInstructions: 'bitcoin:?lno=lno1qgsqvgnwgcg35z6ee2h3yczraddm72xrfua9uve2rlrm9deu7xyfzrc',
+    publicationPolicy: 'immediate',
+    publicationState: 'queued',
+    nostrIdentifier: crypto.randomUUID()
+  });
+}
+
+async function getAcceptedRelays(highFiveId: number): Promise<string[]> {
+  const publications = await storage.getHighFivePublications(highFiveId);
+  return publications.filter((publication) => publication.status === 'accepted').map((publication) => publication.relay);
+}
+
+before(async () => {
+  setPublicationStorage(storage);
+
+  process.env.NOSTR_PRIVATE_KEY = crypto.randomBytes(32).toString('hex');
+  process.env.NOSTR_QR_IMAGE_HOSTS = 'none';
+  process.env.NOSTR_DM_RELAYS = DEAD_RELAY;
+  process.env.NOSTR_PROFILE_RELAYS = DEAD_RELAY;
+  relayUrl = await startLocalRelay(0);
+});
+
+after(async () => {
+  await stopLocalRelay();
+});
+
+test('re-broadcasts with backoff doubling from 1 minute up to 1 hour, and gives up after the last attempt', async () => {
+  await useRelays([relayUrl, DEAD_RELAY], 2);
+
+  let startedAt = Date.now();
+  let highFive = await publishHighFive(await createQueuedHighFive());
+  const nostrEventId = highFive.nostrEventId;
+  assert.equal(highFive.publicationState, 'published');
+  assert.ok(nostrEventId);
+
+  for (const [index, backoff] of BACKOFF_SCHEDULE.entries()) {
+    const finishedAt = Date.now();
+    assert.equal(highFive.publishAttempts, index + 1);
+    assert.equal(highFive.seenOnRelays, 1);
+    const delay = Date.parse(highFive.nextPublishAttemptAt!) - startedAt;
+    assert.ok(delay >= backoff && delay <= backoff + (finishedAt - startedAt), `attempt ${index + 1} waits ${delay}ms instead of ${backoff}ms`);
+
+    startedAt = Date.now();
+    highFive = await republishHighFive((await storage.getHighFive(highFive.id))!);
+  }
+
+  // The 15th attempt was the last one
+  assert.equal(highFive.publishAttempts, 15);
+  assert.equal(highFive.nextPublishAttemptAt, null);
+  const due = await storage.getHighFivesDueForRepublish(new Date(Date.now() + 24 * 60 * MINUTE).toISOString());
+  assert.ok(!due.some((dueHighFive) => dueHighFive.id === highFive.id));
+
+  // Failed re-broadcasts don't take back the relay that accepted the note
+  const stored = await storage.getHighFive(highFive.id);
+  assert.equal(stored?.publicationState, 'published');
+  assert.equal(stored?.nostrEventId, nostrEventId);
+  assert.deepEqual(await getAcceptedRelays(highFive.id), [relayUrl + '/']);
+});
+
+test('does not re-broadcast a note that enough relays accepted', async () => {
+  await useRelays([relayUrl, DEAD_RELAY], 1);
+
+  const highFive = await publishHighFive(await createQueuedHighFive());
+  assert.equal(highFive.publicationState, 'published');
+  assert.equal(highFive.seenOnRelays, 1);
+  assert.equal(highFive.publishAttempts, 1);
+  assert.equal(highFive.nextPublishAttemptAt, null);
+});
+
+test('stops re-broadcasting once the relays that were missing the note accept it', async () => {
+  await useRelays([relayUrl, DEAD_RELAY], 2);
+  const published = await publishHighFive(await createQueuedHighFive());
+  assert.ok(published.nextPublishAttemptAt);
+
+  // A second relay comes online in place of the dead one; the one that has the note isn't asked again
+  const mirrorUrl = `${relayUrl}/mirror`;
+  await useRelays([relayUrl, mirrorUrl], 2);
+  const highFive = await republishHighFive((await storage.getHighFive(published.id))!);
+
+  assert.equal(highFive.seenOnRelays, 2);
+  assert.equal(highFive.publishAttempts, 2);
+  assert.equal(highFive.nextPublishAttemptAt, null);
+  assert.deepEqual(await getAcceptedRelays(highFive.id), [relayUrl + '/', mirrorUrl]);
+});
+
+test('points the note at the structured event it publishes, also when the note was signed up front', async () => {
+  await useRelays([relayUrl], 1);
+  const nostrIdentifier = crypto.randomUUID();
+  // Like a zapped high five: the note is signed before the high five is stored
+  const note = await createHighFiveEvent({ identifier: nostrIdentifier, recipient: 'alice@example.com', reason: 'Running the relay' });
+  const queued = await storage.createHighFive({
+    recipient: 'alice@example.com',
+    reason: 'Running the relay',
+    paymentInstructions: 'lnbc10u1zap',
+    publicationPolicy: 'immediate',
+    publicationState: 'queued',
+    nostrEvent: JSON.stringify(note),
+    nostrIdentifier
+  });
+
+  const highFive = await publishHighFive(queued);
+  assert.equal(highFive.nostrEventId, note!.id);
+
+  const address = note!.tags.find((tag) => tag[0] === 'a')?.[1];
+  assert.equal(address, `${HIGH_FIVE_KIND}:${note!.pubkey}:${nostrIdentifier}`);
+  const records = await queryNostrEvents({ kinds: [HIGH_FIVE_KIND], authors: [note!.pubkey], '#d': [nostrIdentifier] });
+  assert.equal(records.length, 1);
+  assert.deepEqual(records[0].tags.find((tag) => tag[0] === 'e'), ['e', note!.id, '', 'mention']);
+});
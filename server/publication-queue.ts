@@ -0,0 +1,374 @@
+import type { HighFive } from '@shared/schema';
+import { storage as defaultStorage, type IStorage } from './storage';
+import { getHighFiveIdentifier, publishHighFiveRecord, publishHighFiveToNostr, publishSignedEvent, type NostrPublishResult } from './nostr-publisher';
+import { getLightningAddressFromNpub } from './nostr-profile';
+import { emitHighFiveEvent, emitHighFiveRemoved, onHighFiveEvent } from './high-five-events';
+import { getRelays } from './relay-manager';
+
+// How often queued high fives are checked for publication
+const QUEUE_INTERVAL_MS = 10000;
+
+// Queued high fives that never became publishable are abandoned after this long
+const ABANDON_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// 'immediate' high fives are published by the request handler; the queue only
+// picks them up if that didn't finish within this grace period
+const IMMEDIATE_GRACE_MS = 60 * 1000;
+
+// How often notes that too few relays accepted are checked for re-broadcasting
+const REPUBLISH_INTERVAL_MS = 30000;
+
+// Re-broadcasts back off from 1 minute, doubling up to 1 hour, and stop after this many attempts
+const REPUBLISH_BACKOFF_BASE_MS = 60 * 1000;
+const REPUBLISH_BACKOFF_MAX_MS = 60 * 60 * 1000;
+const MAX_PUBLISH_ATTEMPTS = 15;
+
+// Relays that should have a note before it stops being re-broadcast, unless NOSTR_MIN_RELAYS says otherwise
+const DEFAULT_MIN_RELAYS = 2;
+
+let queueTimer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+let republishTimer: NodeJS.Timeout | null = null;
+let isRepublishing = false;
+
+// Where high fives and their publications are read and recorded
+let storage: IStorage = defaultStorage;
+
+/**
+ * Use a different storage for the queue, e.g. MemStorage in tests
+ */
+export function setPublicationStorage(publicationStorage: IStorage): void {
+  storage = publicationStorage;
+}
+
+/**
+ * Publish a high five to Nostr and record the outcome
+ * @param highFive The high five to publish
+ * @returns The high five with its Nostr event ID, if publication succeeded
+ */
+export async function publishHighFive(highFive: HighFive): Promise<HighFive> {
+  // Nothing to publish without a payment instruction
+  if (!highFive.paymentInstructions) {
+    console.log(`Skipping Nostr publication for high five ${highFive.id} due to missing payment instruction`);
+    await abandonHighFive(highFive.id);
+    return { ...highFive, publicationState: 'abandoned' };
+  }
+
+  try {
+    // Zapped high fives were signed up front so the zap request could reference them
+    if (highFive.nostrEvent) {
+      const result = await publishSignedEvent(JSON.parse(highFive.nostrEvent));
+      return await recordPublication(highFive, result);
+    }
+    
+    // Variable to hold the Lightning Address
+    let lightningAddress = highFive.lightningAddress || undefined;
+
+    // Check if this is a direct Lightning Address (contains @ symbol)
+    if (!lightningAddress && highFive.recipient.includes('@')) {
+      lightningAddress = highFive.recipient;
+    }
+    // For npub recipients, try to get their Lightning Address
+    else if (!lightningAddress && highFive.recipient.startsWith('npub')) {
+      const result = await getLightningAddressFromNpub(highFive.recipient);
+      if (result) {
+        lightningAddress = result;
+        console.log(`Using Lightning Address ${lightningAddress} for npub ${highFive.recipient}`);
+      }
+    }
+
+    // Publish to Nostr and wait for the result
+    const result = await publishHighFiveToNostr({
+      identifier: getHighFiveIdentifier(highFive),
+      recipient: highFive.recipient,
+      reason: highFive.reason,
+      sender: highFive.sender || undefined,
+      lightningInvoice: highFive.paymentInstructions,
+      lightningAddress,
+      amountSats: highFive.amountSats ?? undefined
+    });
+
+    return await recordPublication(highFive, result);
+  } catch (error) {
+    // Log error but don't affect the main flow
+    console.error(`Error publishing high five ${highFive.id} to Nostr:`, error);
+    await storage.updateHighFivePublicationState(highFive.id, 'failed');
+    return { ...highFive, publicationState: 'failed' };
+  }
+}
+
+/**
+ * Give up on publishing a high five and take it off the live feed, like the public list does
+ */
+async function abandonHighFive(id: number): Promise<void> {
+  await storage.updateHighFivePublicationState(id, 'abandoned');
+  emitHighFiveRemoved(id);
+}
+
+/**
+ * Store every relay's answer to a publish attempt
+ * @returns How many distinct relays have accepted the high five's note so far
+ */
+async function recordRelayOutcomes(highFive: HighFive, result: NostrPublishResult): Promise<number | null> {
+  if (!result.event || result.relays.length === 0) {
+    return highFive.seenOnRelays;
+  }
+
+  try {
+    const attemptedAt = new Date().toISOString();
+    await storage.addHighFivePublications(result.relays.map((relay) => ({
+      highFiveId: highFive.id,
+      eventId: result.event!.id,
+      relay: relay.relay,
+      status: relay.status,
+      message: relay.error ?? null,
+      latencyMs: relay.latencyMs,
+      attemptedAt
+    })));
+
+    // Count relays across all attempts, so a later retry doesn't lower the number
+    const publications = await storage.getHighFivePublications(highFive.id);
+    const seenOn = new Set(publications.filter((publication) => publication.status === 'accepted').map((publication) => publication.relay));
+    await storage.updateHighFiveSeenOnRelays(highFive.id, seenOn.size);
+    return seenOn.size;
+  } catch (error) {
+    // Losing the diagnostics shouldn't fail the publication itself
+    console.error(`Error recording relay outcomes for high five ${highFive.id}:`, error);
+    return highFive.seenOnRelays;
+  }
+}
+
+/**
+ * How many relays must accept a note before it stops being re-broadcast.
+ * Never more than the number of publish relays, or it could never be reached.
+ */
+export function getMinimumRelays(): number {
+  const configured = parseInt(process.env.NOSTR_MIN_RELAYS || '', 10);
+  const minimum = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MIN_RELAYS;
+  return Math.min(minimum, getRelays('publish').length);
+}
+
+/**
+ * Decide when a note is next re-broadcast
+ * @returns The time of the next attempt, or null if enough relays have it or we've given up
+ */
+function getNextPublishAttempt(publishAttempts: number, seenOnRelays: number): string | null {
+  if (seenOnRelays >= getMinimumRelays() || publishAttempts >= MAX_PUBLISH_ATTEMPTS) {
+    return null;
+  }
+  const backoff = Math.min(REPUBLISH_BACKOFF_BASE_MS * Math.pow(2, publishAttempts - 1), REPUBLISH_BACKOFF_MAX_MS);
+  return new Date(Date.now() + backoff).toISOString();
+}
+
+/**
+ * Store the outcome of publishing a high five, schedule a re-broadcast if too few
+ * relays accepted it, and tell subscribers about it
+ */
+async function recordPublication(highFive: HighFive, result: NostrPublishResult): Promise<HighFive> {
+  const wasPublished = highFive.publicationState === 'published';
+
+  // Keep the signed note so every retry re-broadcasts the same event
+  if (result.event && !highFive.nostrEvent) {
+    await storage.updateHighFiveNostrEvent(highFive.id, JSON.stringify(result.event));
+  }
+  const nostrEvent = result.event ? JSON.stringify(result.event) : highFive.nostrEvent;
+
+  const seenOnRelays = await recordRelayOutcomes(highFive, result);
+  const publishAttempts = (highFive.publishAttempts ?? 0) + 1;
+  const nextPublishAttemptAt = result.event ? getNextPublishAttempt(publishAttempts, seenOnRelays ?? 0) : null;
+  await storage.updateHighFiveRepublishSchedule(highFive.id, publishAttempts, nextPublishAttemptAt);
+  if (nextPublishAttemptAt) {
+    console.log(`High five ${highFive.id} is on ${seenOnRelays ?? 0}/${getMinimumRelays()} relays; re-broadcasting at ${nextPublishAttemptAt}`);
+  } else if (publishAttempts >= MAX_PUBLISH_ATTEMPTS && (seenOnRelays ?? 0) < getMinimumRelays()) {
+    console.error(`Giving up re-broadcasting high five ${highFive.id} after ${publishAttempts} attempts`);
+  }
+
+  const updated = { ...highFive, nostrEvent, seenOnRelays, publishAttempts, nextPublishAttemptAt };
+
+  // A retry that reached no relay doesn't undo relays that accepted the note earlier
+  const nostrEventId = result.eventId ?? ((seenOnRelays ?? 0) > 0 ? highFive.nostrEventId : null);
+  if (!nostrEventId) {
+    await storage.updateHighFivePublicationState(highFive.id, 'failed');
+    return { ...updated, publicationState: 'failed' };
+  }
+
+  // Store the Nostr event ID in the database
+  await storage.updateHighFiveNostrEventId(highFive.id, nostrEventId);
+  await storage.updateHighFivePublicationState(highFive.id, 'published');
+  console.log(`Updated high five ${highFive.id} with Nostr event ID: ${nostrEventId} (seen on ${seenOnRelays} relays${result.imageHost ? `, QR code hosted by ${result.imageHost}` : ''})`);
+  emitHighFiveEvent({ type: 'published', highFiveId: highFive.id, nostrEventId, seenOnRelays });
+
+  const published: HighFive = { ...updated, nostrEventId, publicationState: 'published' };
+
+  // The structured event goes out once the note it mentions is on a relay
+  if (!wasPublished) {
+    await publishHighFiveRecord(published);
+  }
+
+  return published;
+}
+
+/**
+ * Replace a published high five's structured event once its payment is proven
+ */
+async function publishPaymentProof(highFiveId: number): Promise<void> {
+  try {
+    const highFive = await storage.getHighFive(highFiveId);
+    // Unpublished high fives get the proof when their structured event is first published
+    if (highFive?.publicationState === 'published' && highFive.nostrEventId) {
+      await publishHighFiveRecord(highFive);
+    }
+  } catch (error) {
+    console.error(`Error publishing payment proof for high five ${highFiveId}:`, error);
+  }
+}
+
+/**
+ * Re-broadcast a high five's signed note to the publish relays that haven't accepted it yet
+ * @param highFive A high five whose re-broadcast is due
+ * @returns The high five with its updated publication state and schedule
+ */
+export async function republishHighFive(highFive: HighFive): Promise<HighFive> {
+  if (!highFive.nostrEvent) {
+    // Nothing was ever signed, so there's nothing to re-broadcast
+    await storage.updateHighFiveRepublishSchedule(highFive.id, highFive.publishAttempts ?? 0, null);
+    return { ...highFive, nextPublishAttemptAt: null };
+  }
+
+  const publications = await storage.getHighFivePublications(highFive.id);
+  const acceptedBy = new Set(publications.filter((publication) => publication.status === 'accepted').map((publication) => publication.relay));
+  const missing = getRelays('publish').filter((relay) => !acceptedBy.has(relay));
+  if (missing.length === 0) {
+    await storage.updateHighFiveRepublishSchedule(highFive.id, highFive.publishAttempts ?? 0, null);
+    return { ...highFive, nextPublishAttemptAt: null };
+  }
+
+  console.log(`Re-broadcasting high five ${highFive.id} (attempt ${(highFive.publishAttempts ?? 0) + 1}) to ${missing.length} relays that don't have it`);
+  const result = await publishSignedEvent(JSON.parse(highFive.nostrEvent), missing);
+  return await recordPublication(highFive, result);
+}
+
+/**
+ * Re-broadcast every note whose next attempt is due. Runs on a timer once the
+ * worker is started, and can be called directly, e.g. against a local relay.
+ */
+export async function republishDueHighFives(): Promise<void> {
+  const due = await storage.getHighFivesDueForRepublish(new Date().toISOString());
+  for (const highFive of due) {
+    try {
+      await republishHighFive(highFive);
+    } catch (error) {
+      console.error(`Error re-broadcasting high five ${highFive.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Decide what to do with a queued high five according to its publication policy
+ */
+async function processQueuedHighFive(highFive: HighFive): Promise<void> {
+  const now = Date.now();
+  const isPaid = highFive.paymentStatus === 'paid';
+  // Payments we can't verify (offers, on-chain, LNURL without LUD-21) count once the sender says they paid
+  const isConfirmedBySender = highFive.paymentStatus === null && !!highFive.senderConfirmedAt;
+
+  switch (highFive.publicationPolicy) {
+    case 'delayed':
+      // Publish once paid, or when the sender's deadline passes regardless of payment
+      if (isPaid || isConfirmedBySender || (highFive.publishAfter && Date.parse(highFive.publishAfter) <= now)) {
+        await publishHighFive(highFive);
+      }
+      return;
+
+    case 'immediate':
+      // Normally published while the request is handled; pick up any stragglers
+      if (now - Date.parse(highFive.createdAt) > IMMEDIATE_GRACE_MS) {
+        await publishHighFive(highFive);
+      }
+      return;
+
+    case 'on_verify':
+    default:
+      // Payments we can't verify wait for the sender instead, so an abandoned payment stays private
+      if (isPaid || isConfirmedBySender) {
+        await publishHighFive(highFive);
+        return;
+      }
+
+      if (highFive.paymentStatus === 'expired') {
+        console.log(`Invoice for high five ${highFive.id} expired unpaid, marking as abandoned`);
+        await abandonHighFive(highFive.id);
+        return;
+      }
+  }
+
+  // The sender never completed the payment. Pending invoices are abandoned when they expire
+  // instead, so one refreshed after this long still gets its chance to be paid.
+  if (highFive.paymentStatus !== 'pending' && now - Date.parse(highFive.createdAt) > ABANDON_AFTER_MS) {
+    console.log(`High five ${highFive.id} was never paid, marking as abandoned`);
+    await abandonHighFive(highFive.id);
+  }
+}
+
+/**
+ * Start periodically publishing queued high fives whose policy allows it
+ */
+export function startPublicationQueue(): void {
+  if (queueTimer) {
+    return;
+  }
+
+  queueTimer = setInterval(async () => {
+    // Publishing can outlast the interval; never publish the same high five twice
+    if (isProcessing) {
+      return;
+    }
+    isProcessing = true;
+
+    try {
+      const queued = await storage.getHighFivesByPublicationState('queued');
+      for (const highFive of queued) {
+        await processQueuedHighFive(highFive);
+      }
+    } catch (error) {
+      console.error('Error processing publication queue:', error);
+    } finally {
+      isProcessing = false;
+    }
+  }, QUEUE_INTERVAL_MS);
+
+  // Published high fives get their payment proof added to the structured event
+  onHighFiveEvent((event) => {
+    if (event.type === 'paymentReceived') {
+      publishPaymentProof(event.highFiveId);
+    }
+  });
+
+  console.log(`Publication queue started (checking every ${QUEUE_INTERVAL_MS / 1000}s)`);
+}
+
+/**
+ * Start periodically re-broadcasting notes that too few relays accepted
+ */
+export function startRepublishWorker(): void {
+  if (republishTimer) {
+    return;
+  }
+
+  republishTimer = setInterval(async () => {
+    if (isRepublishing) {
+      return;
+    }
+    isRepublishing = true;
+
+    try {
+      await republishDueHighFives();
+    } catch (error) {
+      console.error('Error re-broadcasting high fives:', error);
+    } finally {
+      isRepublishing = false;
+    }
+  }, REPUBLISH_INTERVAL_MS);
+
+  console.log(`Republish worker started (checking every ${REPUBLISH_INTERVAL_MS / 1000}s, minimum ${getMinimumRelays()} relays)`);
+}
@@ -0,0 +1,199 @@
+// Ways of hosting the payment QR code image that goes with a high five's Nostr note.
+// Hosts are tried in order until one succeeds; NOSTR_QR_IMAGE_HOSTS picks which ones
+// run and in what order, so operators can switch hosting without touching code.
+import { finalizeEvent, getPublicKey, nip19, type Event } from 'nostr-tools';
+import * as QRCode from 'qrcode';
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { uploadImageToBlossom } from './blossom-client';
+import { getRelays, publishToRelays } from './relay-manager';
+
+// Order hosts are tried in unless NOSTR_QR_IMAGE_HOSTS lists them differently
+const DEFAULT_HOST_ORDER = ['local', 'blossom'];
+
+// Public address of this server, for links to locally saved QR codes
+const PUBLIC_BASE_URL = 'https://highfives.fun';
+
+// NIP-94 file metadata event kind
+const FILE_METADATA_KIND = 1063;
+
+// Directory to store QR code images served under /qr-codes
+const QR_CODE_DIR = path.join(process.cwd(), 'public', 'qr-codes');
+
+// Create QR code directory if it doesn't exist
+if (!fs.existsSync(QR_CODE_DIR)) {
+  fs.mkdirSync(QR_CODE_DIR, { recursive: true });
+  console.log(`Created QR code directory: ${QR_CODE_DIR}`);
+}
+
+const QR_CODE_OPTIONS: QRCode.QRCodeRenderersOptions = {
+  errorCorrectionLevel: 'H',
+  margin: 1,
+  width: 300,
+  color: {
+    dark: '#000000',
+    light: '#ffffff'
+  }
+};
+
+// A QR code image, hosted somewhere Nostr clients can find it
+export interface HostedQrImage {
+  host: string; // Name of the host that stored it
+  url: string; // https URL, data URL, or nostr: reference to a NIP-94 event
+  tags: string[][]; // Tags the note should carry to point at the image
+}
+
+export interface QrImageHost {
+  name: string;
+  /**
+   * Host a QR code for the given payment instructions
+   * @param data What the QR code encodes
+   * @param privateKeyHex The server key, for hosts that publish Nostr events
+   */
+  host(data: string, privateKeyHex: string): Promise<HostedQrImage>;
+}
+
+function generateQRCodeBuffer(data: string): Promise<Buffer> {
+  return QRCode.toBuffer(data, { ...QR_CODE_OPTIONS, type: 'png' });
+}
+
+/**
+ * Save a QR code PNG under public/qr-codes
+ * @param data What the QR code encodes
+ * @returns The path it's served at, e.g. /qr-codes/<uuid>.png
+ */
+export async function saveQRCodeLocally(data: string): Promise<string> {
+  try {
+    // Generate a unique filename
+    const filename = `${crypto.randomUUID()}.png`;
+    const filepath = path.join(QR_CODE_DIR, filename);
+
+    // Generate the QR code as a PNG file locally
+    await QRCode.toFile(filepath, data, { ...QR_CODE_OPTIONS, type: 'png' });
+    console.log(`Generated QR code image: ${filename}`);
+
+    // Return the public URL
+    return `/qr-codes/${filename}`;
+  } catch (error) {
+    console.error('Error saving QR code locally:', error);
+    throw error;
+  }
+}
+
+// Served by this app from public/qr-codes
+export const localQrImageHost: QrImageHost = {
+  name: 'local',
+  async host(data) {
+    const url = `${PUBLIC_BASE_URL}${await saveQRCodeLocally(data)}`;
+    return { host: 'local', url, tags: [['image', url]] };
+  }
+};
+
+// Uploaded to the Blossom media server
+export const blossomQrImageHost: QrImageHost = {
+  name: 'blossom',
+  async host(data) {
+    const url = await uploadImageToBlossom(await generateQRCodeBuffer(data), 'image/png');
+    return {
+      host: 'blossom',
+      url,
+      tags: [
+        ['image', url],
+        ['alt', 'QR code for Bitcoin payment']
+      ]
+    };
+  }
+};
+
+// Published to our relays as a NIP-94 file event carrying the image itself, which the note references
+export const nip94QrImageHost: QrImageHost = {
+  name: 'nip94',
+  async host(data, privateKeyHex) {
+    const image = await generateQRCodeBuffer(data);
+    const fileEvent: Event = {
+      kind: FILE_METADATA_KIND,
+      pubkey: getPublicKey(privateKeyHex as unknown as Uint8Array),
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [
+        ['m', 'image/png'],
+        ['x', crypto.createHash('sha256').update(image).digest('hex')],
+        ['size', image.length.toString()],
+        ['dim', `${QR_CODE_OPTIONS.width}x${QR_CODE_OPTIONS.width}`],
+        ['alt', 'QR code for Bitcoin payment']
+      ],
+      content: image.toString('base64'),
+      id: '',
+      sig: ''
+    };
+
+    const signedEvent = finalizeEvent(fileEvent, privateKeyHex as unknown as Uint8Array);
+    const results = await publishToRelays('publish', signedEvent);
+    if (!results.some((result) => result.success)) {
+      throw new Error('No relay accepted the QR code file event');
+    }
+
+    const nevent = nip19.neventEncode({ id: signedEvent.id, relays: getRelays('publish').slice(0, 2), kind: FILE_METADATA_KIND });
+    return { host: 'nip94', url: `nostr:${nevent}`, tags: [['e', signedEvent.id, '', 'qr-code']] };
+  }
+};
+
+// Embedded in the note as a data URL; nothing to upload, but few clients render it
+export const dataUrlQrImageHost: QrImageHost = {
+  name: 'data-url',
+  async host(data) {
+    const url = await QRCode.toDataURL(data, QR_CODE_OPTIONS);
+    return { host: 'data-url', url, tags: [] };
+  }
+};
+
+const QR_IMAGE_HOSTS: Record<string, QrImageHost> = Object.fromEntries(
+  [localQrImageHost, blossomQrImageHost, nip94QrImageHost, dataUrlQrImageHost].map((imageHost) => [imageHost.name, imageHost])
+);
+
+/**
+ * Get the QR image hosts to try, in order. NOSTR_QR_IMAGE_HOSTS can reorder or disable them,
+ * e.g. "blossom,data-url", or be set to "none" to publish notes without a QR code.
+ */
+export function getConfiguredQrImageHosts(): QrImageHost[] {
+  const names = process.env.NOSTR_QR_IMAGE_HOSTS
+    ? process.env.NOSTR_QR_IMAGE_HOSTS.split(',').map((name) => name.trim()).filter(Boolean)
+    : DEFAULT_HOST_ORDER;
+
+  return names.flatMap((name) => {
+    if (name === 'none') {
+      return [];
+    }
+    if (!QR_IMAGE_HOSTS[name]) {
+      console.error(`Unknown QR image host in NOSTR_QR_IMAGE_HOSTS: ${name}`);
+      return [];
+    }
+    return [QR_IMAGE_HOSTS[name]];
+  });
+}
+
+/**
+ * Host a QR code image with the first host that succeeds
+ * @param data What the QR code encodes
+ * @param privateKeyHex The server key, for hosts that publish Nostr events
+ * @param hosts The hosts to try (defaults to the configured order)
+ * @returns The hosted image, or null if every host failed
+ */
+export async function hostQrImage(
+  data: string,
+  privateKeyHex: string,
+  hosts: QrImageHost[] = getConfiguredQrImageHosts()
+): Promise<HostedQrImage | null> {
+  for (const imageHost of hosts) {
+    try {
+      const image = await imageHost.host(data, privateKeyHex);
+      console.log(`Hosted QR code image with ${imageHost.name}: ${image.url.substring(0, 80)}`);
+      return image;
+    } catch (error) {
+      console.error(`QR image host ${imageHost.name} failed:`, error);
+    }
+  }
+
+  console.error(`No QR image host succeeded (tried: ${hosts.map((imageHost) => imageHost.name).join(', ') || 'none'})`);
+  return null;
+}
@@ -0,0 +1,136 @@
+// Previews of who a recipient is, shown while the sender types.
+// Unlike the payment resolvers these never request an invoice: they only check that the
+// recipient exists and say which payment rail a high five to them would use.
+import { nip19 } from 'nostr-tools';
+import { parsePaymentInstruction, type PaymentInstructionType } from '@shared/payment-instructions';
+import { classifyRecipient, parseNostrRecipient, type NostrRecipient, type RecipientInterpretation, type RecipientKind } from '@shared/recipient';
+import { resolveBip353 } from './dns-util';
+import { getPayLimitsFromLightningAddress } from './lightning-tool';
+import { getNostrProfile } from './nostr-profile';
+import { lookupNip05 } from './nip05';
+
+// Previews shouldn't keep the sender waiting as long as a payment lookup may
+const PREVIEW_TIMEOUT_MS = 8000;
+
+// One thing a recipient could be
+export interface RecipientPreviewCandidate {
+  interpretation: RecipientInterpretation;
+  displayName: string;
+  picture: string | null;
+  npub: string | null;
+  nip05: string | null;
+  lightningAddress: string | null;
+  paymentType: PaymentInstructionType | null; // Null when there's no way to pay them
+}
+
+export interface RecipientPreview {
+  recipient: string;
+  kind: RecipientKind;
+  candidates: RecipientPreviewCandidate[]; // Empty if nothing was found
+}
+
+/**
+ * Preview a ₿tag or Lightning Address: BIP-353 instructions if it has them, otherwise
+ * a Lightning Address whose LNURL-pay endpoint answers
+ */
+async function previewBtag(address: string): Promise<RecipientPreviewCandidate | null> {
+  const bip353 = await resolveBip353(address);
+  if (bip353.status === 'found') {
+    return {
+      interpretation: 'btag',
+      displayName: `₿${address}`,
+      picture: null,
+      npub: null,
+      nip05: null,
+      lightningAddress: null,
+      paymentType: parsePaymentInstruction(bip353.uri)?.type ?? null
+    };
+  }
+
+  const limits = await getPayLimitsFromLightningAddress(address);
+  if (!limits) {
+    return null;
+  }
+  return {
+    interpretation: 'btag',
+    displayName: address,
+    picture: null,
+    npub: null,
+    nip05: null,
+    lightningAddress: address,
+    paymentType: 'bolt11'
+  };
+}
+
+/**
+ * Preview a Nostr identity from its profile
+ */
+async function previewNostr(recipient: NostrRecipient, nip05: string | null = null): Promise<RecipientPreviewCandidate> {
+  const profile = await getNostrProfile(recipient.npub, recipient.relays);
+  return {
+    interpretation: 'nostr',
+    displayName: profile?.displayName || profile?.name || nip05 || `${recipient.npub.substring(0, 12)}…`,
+    picture: profile?.picture || null,
+    npub: recipient.npub,
+    nip05: nip05 || profile?.nip05 || null,
+    lightningAddress: profile?.lightningAddress || null,
+    // Nostr recipients are paid through the Lightning Address or LNURL in their profile
+    paymentType: profile?.lightningAddress ? 'bolt11' : null
+  };
+}
+
+/**
+ * Preview a NIP-05 name, if the domain lists it
+ */
+async function previewNip05(identifier: string): Promise<RecipientPreviewCandidate | null> {
+  const pubkey = await lookupNip05(identifier);
+  if (!pubkey) {
+    return null;
+  }
+  return previewNostr({ pubkey, npub: nip19.npubEncode(pubkey), relays: [] }, identifier);
+}
+
+/**
+ * Give up on a preview lookup that takes too long
+ */
+async function withTimeout<T>(promise: Promise<T | null>): Promise<T | null> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), PREVIEW_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([promise, timeoutPromise]);
+  } catch (error) {
+    console.error('Error previewing recipient:', error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Work out who a recipient is, for showing before the high five is sent.
+ * user@domain is looked up both as a ₿tag and as a NIP-05 name, so it may have two candidates.
+ * @param recipient What the sender typed
+ * @returns The kind of identifier and every identity it matched
+ */
+export async function previewRecipient(recipient: string): Promise<RecipientPreview> {
+  const value = recipient.trim();
+  const kind = classifyRecipient(value);
+  let lookups: Promise<RecipientPreviewCandidate | null>[] = [];
+
+  if (kind === 'user_at_domain') {
+    const address = value.replace(/^₿/, '');
+    lookups = [previewBtag(address), previewNip05(address)];
+  } else if (kind !== 'unknown') {
+    const nostrRecipient = parseNostrRecipient(value);
+    lookups = nostrRecipient ? [previewNostr(nostrRecipient)] : [];
+  }
+
+  const results = await Promise.all(lookups.map((lookup) => withTimeout(lookup)));
+  const candidates = results.filter((candidate): candidate is RecipientPreviewCandidate => candidate !== null);
+  console.log(`Recipient preview for ${value}: ${kind}, ${candidates.length} candidate(s)`);
+
+  return { recipient: value, kind, candidates };
+}
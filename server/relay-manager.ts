@@ -0,0 +1,410 @@
+// One long-lived set of Nostr relay connections shared by every Nostr module.
+// Relays are chosen per purpose (publishing notes, DMs, profile reads), and each relay's
+// health is tracked: failing relays are skipped with exponential backoff until they
+// recover, and success and latency stats are kept for diagnostics.
+import type { Event, Filter } from 'nostr-tools';
+import { SimplePool, useWebSocketImplementation } from 'nostr-tools/pool';
+import type { AbstractRelay } from 'nostr-tools/abstract-relay';
+import { normalizeURL } from 'nostr-tools/utils';
+import WebSocket from 'ws';
+import { relayPurposes, type RelayPurpose, type RelayPublishStatus } from '@shared/schema';
+import { storage as defaultStorage, type IStorage } from './storage';
+
+useWebSocketImplementation(WebSocket);
+
+// Relays used when neither the database nor the environment configures a purpose
+const DEFAULT_RELAYS: Record<RelayPurpose, string[]> = {
+  publish: [
+    'wss://relay.damus.io',
+    'wss://nos.lol',
+    'wss://relay.nostr.band'
+  ],
+  // DMs go to more relays, since we don't know which ones the recipient reads
+  dm: [
+    'wss://relay.damus.io',
+    'wss://nos.lol',
+    'wss://relay.nostr.band',
+    'wss://relay.snort.social',
+    'wss://relay.primal.net',
+    'wss://nostr.wine',
+    'wss://relay.nos.social',
+    'wss://nostr.mutinywallet.com'
+  ],
+  profile: [
+    'wss://relay.damus.io',
+    'wss://nos.lol',
+    'wss://relay.nostr.band',
+    'wss://relay.snort.social',
+    'wss://relay.current.fyi'
+  ]
+};
+
+// Comma-separated relay URLs, e.g. NOSTR_PUBLISH_RELAYS="wss://relay.damus.io,wss://nos.lol"
+const RELAY_ENV_VARS: Record<RelayPurpose, string> = {
+  publish: 'NOSTR_PUBLISH_RELAYS',
+  dm: 'NOSTR_DM_RELAYS',
+  profile: 'NOSTR_PROFILE_RELAYS'
+};
+
+const CONNECTION_TIMEOUT_MS = 5000;
+
+// What nostr-tools rejects a publish with when the relay sends no OK in time
+const PUBLISH_TIMEOUT_MESSAGE = 'publish timed out';
+const DEFAULT_QUERY_WAIT_MS = 5000;
+
+// A failing relay is retried after 5s, then 10s, 20s... up to 10 minutes
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 10 * 60 * 1000;
+
+// Per-relay health, as exposed for diagnostics
+export interface RelayStats {
+  url: string;
+  connected: boolean;
+  attempts: number;
+  successes: number;
+  failures: number;
+  averageLatencyMs: number | null;
+  consecutiveFailures: number;
+  retryAt: string | null; // Set while the relay is backed off
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+// Outcome of publishing an event to one relay
+export interface RelayPublishResult {
+  relay: string;
+  success: boolean;
+  status: RelayPublishStatus;
+  latencyMs: number;
+  error?: string; // Rejection reason or connection error
+}
+
+interface RelayHealth {
+  attempts: number;
+  successes: number;
+  failures: number;
+  totalLatencyMs: number;
+  consecutiveFailures: number;
+  retryAt: number | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+// SimplePool keeps relays that failed to connect around with a rejected connection,
+// so they'd never be retried; the manager drops them to reconnect from scratch
+class ManagedPool extends SimplePool {
+  forget(url: string): void {
+    const relay = this.relays.get(url);
+    if (relay) {
+      try {
+        relay.close();
+      } catch {
+        // Already closed
+      }
+      this.relays.delete(url);
+    }
+  }
+}
+
+const pool = new ManagedPool();
+const health = new Map<string, RelayHealth>();
+
+// Relay lists per purpose; database rows, then env vars, then the defaults
+let configuredRelays: Record<RelayPurpose, string[]> = getRelaysFromEnv();
+
+// Set when every purpose uses the in-process relay; relay hints are ignored too, so nothing leaves the machine
+let localRelayUrl: string | null = null;
+
+function normalizeRelayUrls(urls: string[]): string[] {
+  const normalized: string[] = [];
+  urls.forEach((url) => {
+    try {
+      const relay = normalizeURL(url.trim());
+      if (/^wss?:\/\//.test(relay) && !normalized.includes(relay)) {
+        normalized.push(relay);
+      }
+    } catch {
+      console.error(`Ignoring invalid relay URL: ${url}`);
+    }
+  });
+  return normalized;
+}
+
+function getRelaysFromEnv(): Record<RelayPurpose, string[]> {
+  const relays = {} as Record<RelayPurpose, string[]>;
+  relayPurposes.forEach((purpose) => {
+    const fromEnv = process.env[RELAY_ENV_VARS[purpose]];
+    const urls = fromEnv ? normalizeRelayUrls(fromEnv.split(',')) : [];
+    relays[purpose] = urls.length ? urls : normalizeRelayUrls(DEFAULT_RELAYS[purpose]);
+  });
+  return relays;
+}
+
+/**
+ * Load relay lists from the database, falling back to env vars and defaults
+ * for purposes that have no enabled relays there
+ * @param options localRelay: use only this relay (the in-process one) for every purpose;
+ *   storage: where the relay lists are read from instead of the database
+ */
+export async function loadRelayConfig(options: { localRelay?: string; storage?: IStorage } = {}): Promise<void> {
+  if (options.localRelay) {
+    localRelayUrl = normalizeURL(options.localRelay);
+    relayPurposes.forEach((purpose) => {
+      configuredRelays[purpose] = [localRelayUrl!];
+    });
+    console.log(`Nostr relays: using only the local relay ${localRelayUrl} for ${relayPurposes.join(', ')}`);
+    return;
+  }
+
+  localRelayUrl = null;
+  const relays = getRelaysFromEnv();
+
+  try {
+    const rows = await (options.storage ?? defaultStorage).getEnabledNostrRelays();
+    relayPurposes.forEach((purpose) => {
+      const urls = normalizeRelayUrls(rows.filter((row) => row.purpose === purpose).map((row) => row.url));
+      if (urls.length) {
+        relays[purpose] = urls;
+      }
+    });
+  } catch (error) {
+    console.error('Error loading relay configuration from the database:', error);
+  }
+
+  configuredRelays = relays;
+  relayPurposes.forEach((purpose) => {
+    console.log(`Nostr ${purpose} relays: ${configuredRelays[purpose].join(', ')}`);
+  });
+}
+
+/**
+ * Get the relays configured for a purpose
+ */
+export function getRelays(purpose: RelayPurpose): string[] {
+  return [...configuredRelays[purpose]];
+}
+
+function getHealth(url: string): RelayHealth {
+  let relayHealth = health.get(url);
+  if (!relayHealth) {
+    relayHealth = {
+      attempts: 0,
+      successes: 0,
+      failures: 0,
+      totalLatencyMs: 0,
+      consecutiveFailures: 0,
+      retryAt: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null
+    };
+    health.set(url, relayHealth);
+  }
+  return relayHealth;
+}
+
+function recordSuccess(url: string, latencyMs: number): void {
+  const relayHealth = getHealth(url);
+  relayHealth.attempts++;
+  relayHealth.successes++;
+  relayHealth.totalLatencyMs += latencyMs;
+  relayHealth.consecutiveFailures = 0;
+  relayHealth.retryAt = null;
+  relayHealth.lastSuccessAt = new Date().toISOString();
+}
+
+function recordFailure(url: string, error: unknown): void {
+  const relayHealth = getHealth(url);
+  relayHealth.attempts++;
+  relayHealth.failures++;
+  relayHealth.consecutiveFailures++;
+  relayHealth.lastFailureAt = new Date().toISOString();
+  relayHealth.lastError = error instanceof Error ? error.message : String(error);
+
+  const backoff = Math.min(BACKOFF_BASE_MS * Math.pow(2, relayHealth.consecutiveFailures - 1), BACKOFF_MAX_MS);
+  relayHealth.retryAt = Date.now() + backoff;
+  console.log(`Relay ${url} failed (${relayHealth.lastError}); retrying in ${Math.round(backoff / 1000)}s`);
+}
+
+/**
+ * Relay hints from outside (e.g. nprofiles) are ignored while using the local relay
+ */
+function withoutHints(extraRelays: string[]): string[] {
+  return localRelayUrl ? [] : extraRelays;
+}
+
+/**
+ * Drop relays that are backed off, unless that leaves none, in which case all are tried
+ */
+function getUsableRelays(urls: string[]): string[] {
+  const now = Date.now();
+  const usable = urls.filter((url) => {
+    const retryAt = health.get(url)?.retryAt;
+    return !retryAt || retryAt <= now;
+  });
+  return usable.length ? usable : urls;
+}
+
+/**
+ * Get a connected relay, reconnecting if it dropped
+ */
+async function connectRelay(url: string): Promise<AbstractRelay> {
+  try {
+    return await pool.ensureRelay(url, { connectionTimeout: CONNECTION_TIMEOUT_MS });
+  } catch (error) {
+    pool.forget(url);
+    throw error instanceof Error ? error : new Error(`Could not connect: ${error}`);
+  }
+}
+
+async function publishToRelay(url: string, event: Event): Promise<RelayPublishResult> {
+  const startedAt = Date.now();
+  const failed = (status: RelayPublishStatus, error: unknown): RelayPublishResult => {
+    recordFailure(url, error);
+    return {
+      relay: url,
+      success: false,
+      status,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  };
+
+  let relay: AbstractRelay;
+  try {
+    relay = await connectRelay(url);
+  } catch (error) {
+    return failed('unreachable', error);
+  }
+
+  try {
+    await relay.publish(event);
+    const latencyMs = Date.now() - startedAt;
+    recordSuccess(url, latencyMs);
+    return { relay: url, success: true, status: 'accepted', latencyMs };
+  } catch (error) {
+    // The relay either refused the event with an OK false reason, or never answered
+    const timedOut = error instanceof Error && error.message === PUBLISH_TIMEOUT_MESSAGE;
+    return failed(timedOut ? 'timeout' : 'rejected', error);
+  }
+}
+
+/**
+ * Publish an event to the relays for a purpose
+ * @param purpose Which relay list to use
+ * @param event The signed event
+ * @param extraRelays More relays to publish to, e.g. the recipient's
+ * @returns One result per relay that was tried
+ */
+export async function publishToRelays(purpose: RelayPurpose, event: Event, extraRelays: string[] = []): Promise<RelayPublishResult[]> {
+  return publishToRelayList([...getRelays(purpose), ...withoutHints(extraRelays)], event, `${purpose} relays`);
+}
+
+/**
+ * Publish an event to specific relays, e.g. the ones that don't have it yet
+ * @param relayUrls The relays to publish to
+ * @param event The signed event
+ * @returns One result per relay that was tried
+ */
+export async function publishToRelayUrls(relayUrls: string[], event: Event): Promise<RelayPublishResult[]> {
+  return publishToRelayList(relayUrls, event, 'relays');
+}
+
+async function publishToRelayList(relayUrls: string[], event: Event, label: string): Promise<RelayPublishResult[]> {
+  const relays = getUsableRelays(normalizeRelayUrls(relayUrls));
+  console.log(`Publishing event ${event.id} (kind ${event.kind}) to ${label}: ${relays.join(', ')}`);
+
+  const results = await Promise.all(relays.map((url) => publishToRelay(url, event)));
+  results.forEach((result) => {
+    if (result.success) {
+      console.log(`✅ Published to relay ${result.relay} in ${result.latencyMs}ms`);
+    } else {
+      console.error(`❌ Failed to publish to relay ${result.relay} (${result.status}): ${result.error}`);
+    }
+  });
+  return results;
+}
+
+async function queryRelay(url: string, filter: Filter, maxWait: number): Promise<Event[]> {
+  const startedAt = Date.now();
+  let relay: AbstractRelay;
+  try {
+    relay = await connectRelay(url);
+  } catch (error) {
+    recordFailure(url, error);
+    return [];
+  }
+
+  return new Promise((resolve) => {
+    const events: Event[] = [];
+    let finished = false;
+
+    const finish = (error?: string) => {
+      if (finished) {
+        return;
+      }
+      finished = true;
+      clearTimeout(timer);
+      subscription.close();
+      if (error) {
+        recordFailure(url, error);
+      } else {
+        recordSuccess(url, Date.now() - startedAt);
+      }
+      resolve(events);
+    };
+
+    // Relays that don't finish sending stored events in time count as failing
+    const timer = setTimeout(() => finish(`No end of stored events within ${maxWait}ms`), maxWait);
+
+    const subscription = relay.subscribe([filter], {
+      onevent: (event: Event) => {
+        events.push(event);
+      },
+      oneose: () => finish(),
+      onclose: (reason: string) => finish(`Subscription closed: ${reason}`)
+    });
+  });
+}
+
+/**
+ * Fetch events matching a filter from the relays for a purpose
+ * @param purpose Which relay list to use
+ * @param filter The Nostr filter
+ * @param options How long to wait for each relay, and more relays to ask (e.g. nprofile hints)
+ * @returns The matching events from every relay that answered, without duplicates
+ */
+export async function queryRelays(
+  purpose: RelayPurpose,
+  filter: Filter,
+  options: { maxWait?: number; extraRelays?: string[] } = {}
+): Promise<Event[]> {
+  const relays = getUsableRelays(normalizeRelayUrls([...getRelays(purpose), ...withoutHints(options.extraRelays || [])]));
+  const results = await Promise.all(relays.map((url) => queryRelay(url, filter, options.maxWait ?? DEFAULT_QUERY_WAIT_MS)));
+
+  const events = new Map<string, Event>();
+  results.forEach((relayEvents) => relayEvents.forEach((event) => events.set(event.id, event)));
+  return Array.from(events.values());
+}
+
+/**
+ * Get health and latency stats for every relay the manager has used
+ */
+export function getRelayStats(): RelayStats[] {
+  const connections = pool.listConnectionStatus();
+  return Array.from(health.entries()).map(([url, relayHealth]) => ({
+    url,
+    connected: connections.get(url) ?? false,
+    attempts: relayHealth.attempts,
+    successes: relayHealth.successes,
+    failures: relayHealth.failures,
+    averageLatencyMs: relayHealth.successes ? Math.round(relayHealth.totalLatencyMs / relayHealth.successes) : null,
+    consecutiveFailures: relayHealth.consecutiveFailures,
+    retryAt: relayHealth.retryAt && relayHealth.retryAt > Date.now() ? new Date(relayHealth.retryAt).toISOString() : null,
+    lastSuccessAt: relayHealth.lastSuccessAt,
+    lastFailureAt: relayHealth.lastFailureAt,
+    lastError: relayHealth.lastError
+  }));
+}
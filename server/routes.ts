@@ -1,17 +1,33 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertHighFiveSchema } from "@shared/schema";
-import { publishHighFiveToNostr, saveQRCodeLocally } from "./nostr-http";
+import { insertHighFiveSchema, relayPurposes } from "@shared/schema";
+import { saveQRCodeLocally } from "./qr-image-hosts";
 import * as QRCode from 'qrcode';
 import path from 'path';
 import fs from 'fs';
 import crypto from 'crypto';
-import { WebSocketServer, WebSocket } from 'ws';
 import express from 'express';
-import { lookupPaymentInstructions } from "./dns-util";
-import { getLightningAddressFromNpub, getProfileNameFromNpub } from "./nostr-profile";
-import { getLnurlFromLightningAddress, getInvoiceFromLightningAddress } from "./lightning-tool";
+import { getProfileNameFromNpub, getLightningAddressFromNpub } from "./nostr-profile";
+import { resolveRecipient, summarizeResolutionFailure, describePaymentInstructions, getAmountOutOfRangeError } from "./payment-resolvers";
+import { getLnurlFromLightningAddress, getInvoiceFromLightningAddress, requestInvoiceFromLightningAddress, buildHighFiveComment, DEFAULT_INVOICE_COMMENT, type PayerInfo } from "./lightning-tool";
+import { nip19 } from "nostr-tools";
+import type { Invoice } from "@getalby/lightning-tools";
+import { getVerifyUrlForInvoice, checkHighFivePayment } from "./payment-verifier";
+import { publishHighFive } from "./publication-queue";
+import { setupWebSocketServer } from "./websocket";
+import { emitHighFiveCreated } from "./high-five-events";
+import { prepareHighFiveZap, refreshZapInvoice, type PreparedZap } from "./zaps";
+import { decodeBolt11Invoice } from "./bolt11";
+import { DEFAULT_HONORARIUM_SATS, fiatCurrencies, isFiatCurrency, formatFiat, type FiatCurrency } from "@shared/honorarium";
+import { convertFiatToSats, convertSatsToFiat } from "./exchange-rates";
+import { parsePaymentInstruction } from "@shared/payment-instructions";
+import { parseNostrRecipient, type RecipientInterpretation } from "@shared/recipient";
+import { previewRecipient } from "./recipient-preview";
+import { getRelays, getRelayStats } from "./relay-manager";
+
+// Longest delay a sender can choose before a high five is published regardless of payment
+const MAX_PUBLISH_DELAY_MINUTES = 24 * 60;
 
 // Create public directory and qr-codes subdirectory if they don't exist
 const publicDir = path.join(process.cwd(), 'public');
@@ -26,49 +42,197 @@ if (!fs.existsSync(qrCodesDir)) {
 
 import { sendNostrDM } from './nostr-dm';
 
+// Honorarium amount requested by the sender, converted to sats
+interface RequestedAmount {
+  amountSats: number;
+  fiatAmount: string | null;
+  fiatCurrency: FiatCurrency | null;
+}
+
 /**
- * Combined endpoint that tries both DNS lookup and Lightning invoice generation
- * First attempts DNS lookup for BIP-353 ₿tag
- * If that fails, tries generating invoice directly as Lightning Address
+ * Work out the honorarium from the optional amount and currency query parameters.
+ * Without a currency the amount is in sats; otherwise it's converted at the current rate.
+ * @param query The request query
+ * @returns The amount, or an error to send back to the client
  */
-async function getCombinedPaymentInstructions(address: string): Promise<{
-  paymentInstructions: string;
-  paymentType?: string;
-  lightningAddress?: string;
-} | null> {
-  // First try as a BIP-353 tag
-  try {
-    const paymentInstructions = await lookupPaymentInstructions(address);
-    if (paymentInstructions) {
-      // Determine if this is a BOLT11 or BOLT12 offer
-      const paymentType = paymentInstructions.startsWith('lno') ? 'bolt12' : 'bolt11';
+async function resolveAmountParams(query: Request['query']): Promise<
+  RequestedAmount | { status: number; message: string; details: string }
+> {
+  const { amount, currency } = query;
+  
+  if (!currency || currency === 'SAT') {
+    if (amount === undefined || amount === '') {
+      return { amountSats: DEFAULT_HONORARIUM_SATS, fiatAmount: null, fiatCurrency: null };
+    }
+    
+    const amountSats = Number(amount);
+    if (!Number.isInteger(amountSats) || amountSats <= 0) {
       return {
-        paymentInstructions,
-        paymentType,
-        lightningAddress: address
+        status: 400,
+        message: "Invalid 'amount' parameter",
+        details: "Amount must be a positive whole number of sats"
       };
     }
-  } catch (error) {
-    console.log(`DNS lookup failed for ${address}: ${error instanceof Error ? error.message : String(error)}`);
-    // If DNS lookup fails, continue to try Lightning Address
+    return { amountSats, fiatAmount: null, fiatCurrency: null };
   }
   
-  // If DNS lookup fails, try as a Lightning Address
-  try {
-    const invoice = await getInvoiceFromLightningAddress(address, 21000);
-    if (invoice) {
-      return {
-        paymentInstructions: invoice,
-        paymentType: 'bolt11',
-        lightningAddress: address
-      };
+  if (!isFiatCurrency(currency)) {
+    return {
+      status: 400,
+      message: "Invalid 'currency' parameter",
+      details: `Currency must be one of ${fiatCurrencies.join(', ')}`
+    };
+  }
+  
+  const fiatAmount = Number(amount);
+  if (!Number.isFinite(fiatAmount) || fiatAmount <= 0) {
+    return {
+      status: 400,
+      message: "Invalid 'amount' parameter",
+      details: `Amount must be a positive number of ${currency}`
+    };
+  }
+  
+  const amountSats = await convertFiatToSats(fiatAmount, currency);
+  if (amountSats === null) {
+    return {
+      status: 503,
+      message: "Exchange rate unavailable",
+      details: `Could not convert ${currency} to sats right now. Please try again or enter an amount in sats.`
+    };
+  }
+  if (amountSats < 1) {
+    return {
+      status: 400,
+      message: "Invalid 'amount' parameter",
+      details: `${formatFiat(fiatAmount, currency)} is less than 1 sat`
+    };
+  }
+  
+  return { amountSats, fiatAmount: fiatAmount.toFixed(2), fiatCurrency: currency };
+}
+
+/**
+ * Build the invoice comment from the optional reason and senderName query parameters,
+ * so the payment describes the high five in the recipient's wallet
+ * @param query The request query
+ * @returns The comment to request the invoice with
+ */
+function getInvoiceComment(query: Request['query']): string {
+  const { reason, senderName } = query;
+  if (typeof reason !== 'string' || !reason.trim()) {
+    return DEFAULT_INVOICE_COMMENT;
+  }
+  return buildHighFiveComment(reason, typeof senderName === 'string' && senderName.trim() ? senderName.trim() : undefined);
+}
+
+/**
+ * Get the sender details for LUD-18 payer data from the optional senderName and
+ * senderNpub query parameters. Clients leave both out for anonymous senders.
+ * @param query The request query
+ * @returns The payer details, or undefined if the sender is anonymous
+ */
+function getPayerFromQuery(query: Request['query']): PayerInfo | undefined {
+  const { senderName, senderNpub } = query;
+  const payer: PayerInfo = {};
+  
+  if (typeof senderName === 'string' && senderName.trim() && !senderName.includes('send anonymously')) {
+    payer.name = senderName.trim();
+  }
+  
+  if (typeof senderNpub === 'string' && senderNpub.startsWith('npub')) {
+    try {
+      const { type, data } = nip19.decode(senderNpub);
+      if (type === 'npub') {
+        payer.pubkey = data;
+      }
+    } catch (error) {
+      console.error('Invalid sender npub for payer data:', error);
     }
-  } catch (error) {
-    console.log(`Lightning Address invoice generation failed for ${address}: ${error instanceof Error ? error.message : String(error)}`);
   }
   
-  // Both methods failed
-  return null;
+  return payer.name || payer.pubkey ? payer : undefined;
+}
+
+/**
+ * Get what the sender says the recipient is from the optional "as" query parameter
+ * @param query The request query
+ * @returns "btag" or "nostr", or undefined to work it out from the recipient
+ */
+function getInterpretationFromQuery(query: Request['query']): RecipientInterpretation | undefined {
+  const { as } = query;
+  return as === 'btag' || as === 'nostr' ? as : undefined;
+}
+
+/**
+ * Work out where a recipient is paid from who they are, never from what the client says,
+ * so a sender can't route the honorarium to their own wallet
+ * @param recipient The stored recipient: an npub, or a ₿tag / Lightning Address
+ * @returns The recipient's Lightning Address or LNURL (lud16/lud06 for npubs), or null if they have none
+ */
+async function getRecipientLightningAddress(recipient: string): Promise<string | null> {
+  if (recipient.startsWith('npub')) {
+    return await getLightningAddressFromNpub(recipient);
+  }
+  const address = recipient.replace(/^₿/, '');
+  return address.includes('@') ? address : null;
+}
+
+/**
+ * Run the payment resolver chain for a recipient and send the result. Failures include
+ * the resolver trace so clients can explain what was tried.
+ * @param res The response to send
+ * @param recipient ₿tag, Lightning Address, NIP-05 identifier, npub, nprofile or hex pubkey
+ * @param query The request query, with the amount and invoice details
+ * @param extra Fields to echo back on success
+ * @param interpretation What the recipient is, if the endpoint already knows
+ */
+async function sendResolvedPaymentInstructions(
+  res: Response,
+  recipient: string,
+  query: Request['query'],
+  extra: Record<string, unknown> = {},
+  interpretation: RecipientInterpretation | undefined = getInterpretationFromQuery(query)
+) {
+  const requestedAmount = await resolveAmountParams(query);
+  if ('status' in requestedAmount) {
+    return res.status(requestedAmount.status).json({
+      message: requestedAmount.message,
+      details: requestedAmount.details
+    });
+  }
+  
+  const { payment, trace, amountError, candidates } = await resolveRecipient({
+    recipient,
+    amountSats: requestedAmount.amountSats,
+    comment: getInvoiceComment(query),
+    payer: getPayerFromQuery(query)
+  }, interpretation);
+  
+  if (payment) {
+    return res.status(200).json({ ...extra, ...payment, ...requestedAmount, trace });
+  }
+  
+  // user@domain matched as both a ₿tag and a NIP-05 name; the sender picks one
+  if (candidates) {
+    return res.status(300).json({
+      message: "Recipient is ambiguous",
+      details: `${recipient} is both a ₿tag and a Nostr identity. Choose who you meant.`,
+      candidates: candidates.map((candidate) => ({ ...extra, ...candidate, ...requestedAmount })),
+      trace
+    });
+  }
+  
+  // Tell the sender if the recipient only rejected the amount
+  if (amountError) {
+    return res.status(422).json({ ...amountError, trace });
+  }
+  
+  return res.status(404).json({
+    message: "Payment instructions not found",
+    details: summarizeResolutionFailure(trace),
+    trace
+  });
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -84,6 +248,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // Store Nostr recipients as npubs, however they were entered, so notes can tag them
+      const nostrRecipient = parseNostrRecipient(validation.data.recipient);
+      if (nostrRecipient) {
+        validation.data.recipient = nostrRecipient.npub;
+      }
+      
       // Include the profile name if provided
       const profileName = req.body.profileName as string | undefined;
       
@@ -95,18 +265,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`Found sender profile name: ${senderProfileName || 'None'}`);
       }
       
+      // Identifies the structured Nostr event for this high five; chosen now because
+      // a zapped note is signed before the high five is stored
+      const nostrIdentifier = crypto.randomUUID();
+      
+      // Pay npub recipients with a NIP-57 zap when their wallet supports it, so the
+      // honorarium shows up on their profile and on the high five note
+      let zap: PreparedZap | null = null;
+      const lightningAddress = await getRecipientLightningAddress(validation.data.recipient);
+      if (validation.data.recipient.startsWith('npub') && lightningAddress) {
+        const sender = validation.data.sender || undefined;
+        const isAnonymous = !sender || sender.includes('send anonymously');
+        zap = await prepareHighFiveZap({
+          identifier: nostrIdentifier,
+          recipient: validation.data.recipient,
+          reason: validation.data.reason,
+          sender,
+          lightningAddress,
+          amountSats: validation.data.amountSats ?? DEFAULT_HONORARIUM_SATS,
+          comment: buildHighFiveComment(validation.data.reason, isAnonymous ? undefined : (senderProfileName || sender))
+        });
+      }
+      
+      // Get Lightning invoice from request body if available; a zap replaces it
+      const lightningInvoice = zap
+        ? zap.invoice.paymentRequest
+        : req.body.lightningInvoice as string | undefined;
+      
+      // Track BOLT11 invoices we issued so settlement can be verified via LUD-21.
+      // Payment fields are always set here so clients can't claim a payment themselves.
+      const paymentInstruction = lightningInvoice ? parsePaymentInstruction(lightningInvoice) : null;
+      const isBolt11 = paymentInstruction?.type === 'bolt11';
+      let paymentVerifyUrl: string | null = null;
+      if (zap) {
+        paymentVerifyUrl = zap.invoice.verify;
+      } else if (isBolt11 && lightningInvoice) {
+        paymentVerifyUrl = getVerifyUrlForInvoice(lightningInvoice, lightningAddress);
+      }
+      
+      // Show what the invoice actually asks for. Offers and other instructions without an
+      // amount fall back to the requested one; older clients don't send one at all.
+      const decodedInvoice = isBolt11 && lightningInvoice ? decodeBolt11Invoice(lightningInvoice) : null;
+      const amountSats = decodedInvoice?.amountSats ?? validation.data.amountSats ?? DEFAULT_HONORARIUM_SATS;
+      
+      // The client only picks the currency; the fiat value comes from our own rate
+      let fiatAmount: string | null = null;
+      let fiatCurrency: FiatCurrency | null = null;
+      if (validation.data.fiatCurrency) {
+        const converted = await convertSatsToFiat(amountSats, validation.data.fiatCurrency);
+        if (converted !== null) {
+          fiatAmount = converted.toFixed(2);
+          fiatCurrency = validation.data.fiatCurrency;
+        }
+      }
+      
+      // Senders choose when the note goes out; default to waiting for payment
+      const publicationPolicy = validation.data.publicationPolicy || 'on_verify';
+      let publishAfter: string | null = null;
+      if (publicationPolicy === 'delayed') {
+        const delayMinutes = Number(req.body.publishDelayMinutes);
+        if (!Number.isInteger(delayMinutes) || delayMinutes < 1 || delayMinutes > MAX_PUBLISH_DELAY_MINUTES) {
+          return res.status(400).json({
+            message: "Invalid publication delay",
+            details: `Delay must be a whole number of minutes between 1 and ${MAX_PUBLISH_DELAY_MINUTES}`
+          });
+        }
+        publishAfter = new Date(Date.now() + delayMinutes * 60 * 1000).toISOString();
+      }
+      
+      // Only validated client fields are stored as sent; everything else is set here
       const highFive = await storage.createHighFive({
-        ...validation.data,
+        recipient: validation.data.recipient,
+        reason: validation.data.reason,
+        sender: validation.data.sender,
+        lightningAddress,
+        fiatAmount,
+        fiatCurrency,
         profileName,
-        senderProfileName
+        senderProfileName,
+        paymentRequest: isBolt11 ? lightningInvoice : null,
+        paymentVerifyUrl,
+        paymentStatus: paymentVerifyUrl ? 'pending' : null,
+        paymentInstructions: lightningInvoice || null,
+        publicationPolicy,
+        publishAfter,
+        publicationState: 'queued',
+        amountSats,
+        nostrEvent: zap ? JSON.stringify(zap.note) : null,
+        nostrIdentifier,
+        zapRequest: zap ? JSON.stringify(zap.zapRequest) : null,
+        zapperPubkey: zap ? zap.zapperPubkey : null
       });
-      
-      // Get Lightning invoice from request body if available
-      const lightningInvoice = req.body.lightningInvoice as string | undefined;
 
       // Generate and save QR code only for BOLT12 offers (from btag DNS lookup)
       let qrCodePath = null;
-      const isBolt12 = lightningInvoice && lightningInvoice.startsWith('bitcoin:?lno=');
+      const isBolt12 = paymentInstruction?.type === 'bolt12';
       
       if (isBolt12 && lightningInvoice) {
         try {
@@ -129,69 +382,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`Skipping QR code storage for non-BOLT12 payment (${highFive.id})`);
       }
         
-      // Only proceed with Nostr publication if we have a valid lightning invoice
-      if (lightningInvoice) {
-        console.log('Using payment instruction for Nostr publication:', { 
-          type: 'from DNS lookup',
-          preview: lightningInvoice.substring(0, 30) + '...'
-        });
-
-        try {
-          // Variable to hold the Lightning Address
-          let lightningAddress: string | undefined;
-          
-          // Check if this is a direct Lightning Address (contains @ symbol)
-          if (validation.data.recipient.includes('@')) {
-            lightningAddress = validation.data.recipient;
-          } 
-          // For npub recipients, try to get their Lightning Address
-          else if (validation.data.recipient.startsWith('npub')) {
-            // This function returns string | null but we need string | undefined
-            // so convert null to undefined if needed
-            const result = await getLightningAddressFromNpub(validation.data.recipient);
-            if (result) {
-              lightningAddress = result; // Only assign if not null
-              console.log(`Using Lightning Address ${lightningAddress} for npub ${validation.data.recipient}`);
-            }
-          }
-          
-          // Publish to Nostr and wait for the result
-          const nostrEventId = await publishHighFiveToNostr({
-            recipient: validation.data.recipient,
-            reason: validation.data.reason,
-            sender: validation.data.sender || undefined,
-            lightningInvoice: lightningInvoice,
-            // Pass along the Lightning Address if we have it
-            lightningAddress: lightningAddress
-          });
-          
-          // Update the high five with the Nostr event ID
-          if (nostrEventId) {
-            // Use our new update method to store the Nostr event ID in the database
-            const updatedHighFive = await storage.updateHighFiveNostrEventId(highFive.id, nostrEventId);
-            if (updatedHighFive) {
-              highFive.nostrEventId = nostrEventId;
-              console.log(`Updated high five ${highFive.id} with Nostr event ID: ${nostrEventId}`);
-            }
-          }
-          
-          // Add the Nostr event ID and QR code path to the response
-          return res.status(201).json({
-            ...highFive,
-            nostrEventId: nostrEventId,
-            qrCodePath: highFive.qrCodePath || null,
-            senderProfileName: highFive.senderProfileName
-          });
-        } catch (error) {
-          // Log error but don't affect the main flow
-          console.error('Error publishing to Nostr:', error);
-          // Return the high five data without the Nostr event ID
-          return res.status(201).json(highFive);
-        }
-      } else {
-        console.log('Skipping Nostr publication due to missing payment instruction');
-        return res.status(201).json(highFive);
+      // Publish right away only if the sender asked for it; otherwise the
+      // publication queue picks it up once the policy allows
+      if (highFive.publicationPolicy === 'immediate') {
+        const published = await publishHighFive(highFive);
+        emitHighFiveCreated(published);
+        return res.status(201).json(published);
       }
+      
+      console.log(`Queued high five ${highFive.id} for publication (policy: ${highFive.publicationPolicy})`);
+      emitHighFiveCreated(highFive);
+      return res.status(201).json(highFive);
     } catch (error) {
       console.error("Error creating high five:", error);
       return res.status(500).json({ message: "Internal server error" });
@@ -200,14 +401,202 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/high-fives", async (req, res) => {
     try {
+      // Abandoned high fives were never paid or published, so keep them out of the public list
       const highFives = await storage.getAllHighFives();
-      return res.status(200).json(highFives);
+      return res.status(200).json(highFives.filter((highFive) => highFive.publicationState !== 'abandoned'));
     } catch (error) {
       console.error("Error fetching high fives:", error);
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  // Check (and refresh) the payment status of a high five
+  app.get("/api/high-fives/:id/payment-status", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid high five id" });
+      }
+      
+      const highFive = await storage.getHighFive(id);
+      if (!highFive) {
+        return res.status(404).json({ message: "High five not found" });
+      }
+      
+      const paymentStatus = await checkHighFivePayment(highFive);
+      const updated = await storage.getHighFive(id);
+      
+      return res.status(200).json({
+        id,
+        paymentStatus,
+        paidAt: updated?.paidAt ?? null
+      });
+    } catch (error) {
+      console.error("Error checking payment status:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The sender says they paid. Only used for payments we can't verify ourselves (offers,
+  // on-chain, LNURL services without LUD-21), which wait for this before publishing.
+  app.post("/api/high-fives/:id/confirm-payment", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid high five id" });
+      }
+      
+      const highFive = await storage.getHighFive(id);
+      if (!highFive) {
+        return res.status(404).json({ message: "High five not found" });
+      }
+      
+      // Verifiable invoices are settled by the payment verifier, not by the sender's word
+      let senderConfirmedAt = highFive.senderConfirmedAt;
+      if (highFive.paymentStatus === null && !senderConfirmedAt) {
+        senderConfirmedAt = new Date().toISOString();
+        await storage.updateHighFiveSenderConfirmedAt(id, senderConfirmedAt);
+        console.log(`Sender confirmed payment for high five ${id}`);
+      }
+      
+      return res.status(200).json({
+        id,
+        paymentStatus: highFive.paymentStatus,
+        senderConfirmedAt
+      });
+    } catch (error) {
+      console.error("Error confirming payment:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Every relay's answer to every attempt at publishing a high five, for debugging missing notes
+  app.get("/api/high-fives/:id/publications", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid high five id" });
+      }
+      
+      const highFive = await storage.getHighFive(id);
+      if (!highFive) {
+        return res.status(404).json({ message: "High five not found" });
+      }
+      
+      const publications = await storage.getHighFivePublications(id);
+      return res.status(200).json({
+        id,
+        nostrEventId: highFive.nostrEventId,
+        publicationState: highFive.publicationState,
+        seenOnRelays: highFive.seenOnRelays ?? 0,
+        publications
+      });
+    } catch (error) {
+      console.error("Error fetching high five publications:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Issue a fresh invoice for a high five whose invoice expired before it was paid
+  app.post("/api/high-fives/:id/invoice", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid high five id" });
+      }
+      
+      const highFive = await storage.getHighFive(id);
+      if (!highFive) {
+        return res.status(404).json({ message: "High five not found" });
+      }
+      
+      if (highFive.paymentStatus === 'paid') {
+        return res.status(409).json({ message: "High five is already paid" });
+      }
+      
+      // Offers and other reusable payment instructions don't expire
+      if (!highFive.paymentRequest || !highFive.lightningAddress) {
+        return res.status(422).json({
+          message: "Invoice can't be refreshed",
+          details: "Only invoices generated from a Lightning Address can be refreshed"
+        });
+      }
+      
+      // Another tab (or the payment verifier) may already have replaced the invoice
+      const current = decodeBolt11Invoice(highFive.paymentRequest);
+      if (current && !current.hasExpired) {
+        return res.status(200).json({
+          id,
+          ...describePaymentInstructions(highFive.paymentRequest),
+          paymentStatus: highFive.paymentStatus,
+          invoice: current
+        });
+      }
+      
+      let invoice: Invoice | null = null;
+      if (highFive.zapRequest) {
+        // Zaps keep their zap request so the receipt still points at the high five note
+        invoice = await refreshZapInvoice(highFive);
+      } else {
+        const sender = highFive.sender || undefined;
+        const isAnonymous = !sender || sender.includes('send anonymously');
+        const senderName = isAnonymous ? undefined : (highFive.senderProfileName || sender);
+        invoice = await requestInvoiceFromLightningAddress(
+          highFive.lightningAddress,
+          highFive.amountSats ?? DEFAULT_HONORARIUM_SATS,
+          buildHighFiveComment(highFive.reason, senderName),
+          senderName ? { name: senderName } : undefined
+        );
+      }
+      
+      if (!invoice) {
+        return res.status(404).json({
+          message: "Payment generation failed",
+          details: "Could not generate a new Lightning invoice for this high five"
+        });
+      }
+      
+      // The verify URL is stored with the invoice, so checking the payment doesn't depend on this process
+      const paymentRequest = invoice.paymentRequest;
+      const updated = await storage.updateHighFiveInvoice(id, paymentRequest, invoice.verify);
+      console.log(`Refreshed invoice for high five ${id}`);
+
+      // A refresh re-queues an abandoned high five, which puts it back on the live feed
+      if (highFive.publicationState === 'abandoned' && updated) {
+        emitHighFiveCreated(updated);
+      }
+
+      return res.status(200).json({
+        id,
+        ...describePaymentInstructions(paymentRequest),
+        paymentStatus: updated?.paymentStatus ?? null,
+        invoice: decodeBolt11Invoice(paymentRequest)
+      });
+    } catch (error) {
+      console.error("Error refreshing invoice:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Decode a BOLT11 invoice so clients can show its amount and expiry
+  app.get("/api/decode-invoice", async (req, res) => {
+    const { invoice } = req.query;
+    
+    if (!invoice || typeof invoice !== 'string') {
+      return res.status(400).json({ message: "Invoice parameter is required" });
+    }
+    
+    const decoded = decodeBolt11Invoice(invoice);
+    if (!decoded) {
+      return res.status(400).json({
+        message: "Invalid invoice",
+        details: "Could not decode this as a BOLT11 Lightning invoice"
+      });
+    }
+    
+    return res.status(200).json(decoded);
+  });
+
   // Endpoint for generating a Lightning invoice directly from a Lightning Address
   app.get("/api/lightning-invoice", async (req, res) => {
     try {
@@ -227,15 +616,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      const requestedAmount = await resolveAmountParams(req.query);
+      if ('status' in requestedAmount) {
+        return res.status(requestedAmount.status).json({
+          message: requestedAmount.message,
+          details: requestedAmount.details
+        });
+      }
+      const amount = requestedAmount.amountSats;
+      
       console.log(`Generating invoice for Lightning Address: ${address}`);
       
       // Generate an actual Lightning invoice using the @getalby/lightning-tools library
-      const amount = 21000; // 21,000 sats for the High Five
-      const comment = "High Five Payment";
-      const invoice = await getInvoiceFromLightningAddress(address, amount, comment);
+      const comment = getInvoiceComment(req.query);
+      const invoice = await getInvoiceFromLightningAddress(address, amount, comment, getPayerFromQuery(req.query));
       
       if (!invoice) {
         console.log(`Failed to generate invoice for Lightning Address: ${address}`);
+        const amountError = await getAmountOutOfRangeError(address, amount);
+        if (amountError) {
+          return res.status(422).json(amountError);
+        }
         return res.status(404).json({
           message: "Payment generation failed",
           details: "Could not generate a Lightning invoice for this address"
@@ -245,9 +646,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`Successfully generated invoice for ${address}`);
       
       return res.status(200).json({
-        paymentInstructions: invoice,
-        paymentType: 'bolt11',
-        lightningAddress: address
+        ...describePaymentInstructions(invoice),
+        lightningAddress: address,
+        ...requestedAmount
       });
     } catch (error) {
       console.error("Error generating Lightning invoice:", error);
@@ -261,95 +662,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Endpoint for looking up payment instructions from btag or npub
   app.get("/api/payment-instructions", async (req, res) => {
     try {
-      // Check for either btag or npub parameter
+      // Check for a btag, an npub, or any other kind of recipient
       const btag = req.query.btag as string | undefined;
       const npub = req.query.npub as string | undefined;
+      const anyRecipient = req.query.recipient as string | undefined;
       
-      // Use either the btag or npub parameter
-      let recipient = btag || npub;
+      // Use whichever parameter was given
+      const recipient = btag || npub || anyRecipient;
       
       if (!recipient || typeof recipient !== 'string') {
         return res.status(400).json({ 
           message: "Missing or invalid recipient parameter",
-          details: "Please provide either a valid btag in the format user@domain.com or a Nostr npub" 
+          details: "Please provide a btag in the format user@domain.com, a NIP-05 identifier, or a Nostr npub, nprofile or hex pubkey" 
         });
       }
       
-      // Process different recipient format types
-      if (recipient.startsWith('npub')) {
-        // Handle Nostr npub
-        console.log(`Looking up payment instructions for npub: ${recipient}`);
-        
-        try {
-          // Get Lightning Address from npub
-          const lightningAddress = await getLightningAddressFromNpub(recipient);
-          
-          if (!lightningAddress) {
-            console.log(`No Lightning Address found for npub: ${recipient}`);
-            return res.status(404).json({
-              message: "Lightning Address not found",
-              details: "Could not find a Lightning Address for this Nostr profile"
-            });
-          }
-          
-          console.log(`Found Lightning Address for npub: ${lightningAddress}`);
-          
-          // Also get profile name if available
-          const profileName = await getProfileNameFromNpub(recipient);
-          
-          // Generate an actual Lightning invoice (payment request)
-          const amount = 21000; // 21,000 sats for the High Five
-          const comment = "High Five Payment";
-          const invoice = await getInvoiceFromLightningAddress(lightningAddress, amount, comment);
-          
-          if (!invoice) {
-            console.log(`Failed to generate invoice for Lightning Address: ${lightningAddress}`);
-            return res.status(404).json({
-              message: "Payment generation failed",
-              details: "Could not generate a Lightning invoice for this address"
-            });
-          }
-          
-          console.log(`Successfully generated Lightning invoice for ${lightningAddress}`);
-          
-          return res.status(200).json({
-            btag,
-            paymentInstructions: invoice,
-            paymentType: 'bolt11',
-            lightningAddress,
-            profileName: profileName || undefined
-          });
-        } catch (error) {
-          console.error(`Error processing npub ${btag}:`, error);
-          return res.status(500).json({
-            message: "Error processing Nostr profile",
-            details: error instanceof Error ? error.message : "Unknown error processing npub"
-          });
-        }
-      } else if (recipient.includes('@')) {
-        // Standard btag lookup (email format)
-        console.log(`Looking up payment instructions for btag: ${recipient}`);
-        const paymentInstructions = await lookupPaymentInstructions(recipient);
-        
-        if (!paymentInstructions) {
-          return res.status(404).json({ 
-            message: "Payment instructions not found",
-            details: "Could not find payment instructions for the specified btag" 
-          });
-        }
-        
-        return res.status(200).json({ 
-          btag: recipient, // Use the recipient variable which contains either btag or npub
-          paymentInstructions,
-          paymentType: 'lno'
-        });
-      } else {
-        // Neither npub nor email format
-        return res.status(400).json({
-          message: "Invalid recipient format",
-          details: "Please provide either a Lightning Address (user@domain.com) or a Nostr npub"
-        });
-      }
+      // The npub parameter always means a Nostr identity
+      const interpretation = npub && !btag ? 'nostr' : getInterpretationFromQuery(req.query);
+      return await sendResolvedPaymentInstructions(res, recipient, req.query, { btag }, interpretation);
     } catch (error) {
       console.error("Error looking up payment instructions:", error);
       return res.status(500).json({ 
@@ -359,30 +689,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Combined endpoint that tries both btag and Lightning Address methods
+  // Combined endpoint that tries every payment resolver for an address
   app.get("/api/combined-payment-instructions", async (req, res) => {
     const { address } = req.query;
     
-    if (!address) {
+    if (!address || typeof address !== 'string') {
       return res.status(400).json({ message: "Address parameter is required" });
     }
     
     try {
-      const result = await getCombinedPaymentInstructions(address as string);
-      
-      if (result && result.paymentInstructions) {
-        res.status(200).json(result);
-      } else {
-        res.status(404).json({ 
-          message: "Payment instructions not found via either DNS lookup or Lightning Address" 
-        });
-      }
+      return await sendResolvedPaymentInstructions(res, address, req.query);
     } catch (error) {
       console.error('Error in combined payment instructions lookup:', error);
       res.status(500).json({ message: "Error processing payment instructions" });
     }
   });
 
+  // Preview who a recipient is (name, avatar, payment rail) while the sender is typing
+  app.get("/api/resolve-recipient", async (req, res) => {
+    const { recipient } = req.query;
+    
+    if (!recipient || typeof recipient !== 'string' || !recipient.trim()) {
+      return res.status(400).json({ message: "Recipient parameter is required" });
+    }
+    
+    try {
+      const preview = await previewRecipient(recipient);
+      return res.status(200).json(preview);
+    } catch (error) {
+      console.error('Error previewing recipient:', error);
+      return res.status(500).json({ message: "Error looking up recipient" });
+    }
+  });
+
   // API endpoint for sending Nostr DMs (for authentication)
   app.post("/api/send-nostr-dm", async (req, res) => {
     try {
@@ -429,89 +768,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Relay diagnostics: which relays each purpose uses, and how each relay has been doing
+  app.get("/api/relays", (_req, res) => {
+    const relays = Object.fromEntries(relayPurposes.map((purpose) => [purpose, getRelays(purpose)]));
+    res.status(200).json({ relays, stats: getRelayStats() });
+  });
+
   // Remove duplicate code - QR code serving is now in index.ts
   console.log(`QR code directory: ${qrCodesDir}`);
 
   const httpServer = createServer(app);
 
-  // Add WebSocket server with ping/pong for connection stability
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  wss.on('connection', (ws: WebSocket & { isAlive?: boolean }) => {
-    console.log('WebSocket client connected');
-    
-    // Mark the connection as alive initially
-    ws.isAlive = true;
-    
-    // Handle pong messages from client (responding to our ping)
-    ws.on('pong', () => {
-      ws.isAlive = true;
-    });
-    
-    // Handle regular messages
-    ws.on('message', (message) => {
-      console.log('Received message:', message);
-      
-      try {
-        // Echo back confirmation to the client
-        ws.send(JSON.stringify({
-          type: 'confirmation',
-          timestamp: Date.now()
-        }));
-      } catch (err) {
-        console.error('Error sending confirmation:', err);
-      }
-    });
-    
-    // Send welcome message to client
-    try {
-      ws.send(JSON.stringify({
-        type: 'welcome',
-        message: 'Connected to High Fives server'
-      }));
-    } catch (err) {
-      console.error('Error sending welcome message:', err);
-    }
-    
-    // Handle connection close
-    ws.on('close', () => {
-      console.log('WebSocket client disconnected');
-    });
-    
-    // Handle errors
-    ws.on('error', (error) => {
-      console.error('WebSocket error:', error);
-    });
-  });
-  
-  // Set up a heartbeat interval to detect broken connections
-  const heartbeatInterval = setInterval(() => {
-    wss.clients.forEach((client) => {
-      const ws = client as WebSocket & { isAlive?: boolean };
-      
-      // If the connection is not alive, terminate it
-      if (ws.isAlive === false) {
-        return ws.terminate();
-      }
-      
-      // Mark as not alive, will be marked alive again when pong is received
-      ws.isAlive = false;
-      
-      // Send a ping (client automatically responds with pong)
-      try {
-        ws.ping();
-      } catch (err) {
-        // If ping fails, terminate the connection
-        console.error('Error sending ping:', err);
-        ws.terminate();
-      }
-    });
-  }, 30000); // check every 30 seconds
-  
-  // Clear the interval when the server closes
-  wss.on('close', () => {
-    clearInterval(heartbeatInterval);
-  });
+  // Real-time payment and publication updates over /ws
+  setupWebSocketServer(httpServer);
 
   return httpServer;
 }
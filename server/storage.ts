@@ -5,6 +5,12 @@ import {
   highFives,
   type HighFive,
   type InsertHighFive,
+  type PaymentStatus,
+  type PublicationState,
+  type ProfileCacheEntry,
+  type NostrRelay,
+  type HighFivePublication,
+  type InsertHighFivePublication,
 } from "@shared/schema";
 
 // modify the interface with any CRUD methods
@@ -19,21 +25,51 @@ export interface IStorage {
   createHighFive(highFive: InsertHighFive): Promise<HighFive>;
   getHighFive(id: number): Promise<HighFive | undefined>;
   getAllHighFives(): Promise<HighFive[]>;
+  getHighFivesSince(id: number): Promise<HighFive[]>;
   updateHighFiveNostrEventId(id: number, nostrEventId: string): Promise<HighFive | undefined>;
   updateHighFiveQRCodePath(id: number, qrCodePath: string): Promise<HighFive | undefined>;
+  getHighFivesByPaymentStatus(paymentStatus: PaymentStatus): Promise<HighFive[]>;
+  updateHighFivePaymentStatus(id: number, paymentStatus: PaymentStatus, paymentPreimage?: string | null): Promise<HighFive | undefined>;
+  updateHighFiveSenderConfirmedAt(id: number, senderConfirmedAt: string): Promise<HighFive | undefined>;
+  getHighFivesByPublicationState(publicationState: PublicationState): Promise<HighFive[]>;
+  updateHighFivePublicationState(id: number, publicationState: PublicationState): Promise<HighFive | undefined>;
+  getHighFivesAwaitingZapReceipt(): Promise<HighFive[]>;
+  updateHighFiveZapReceipt(id: number, zapReceiptId: string): Promise<HighFive | undefined>;
+  updateHighFiveInvoice(id: number, paymentRequest: string, paymentVerifyUrl: string | null): Promise<HighFive | undefined>;
+  updateHighFiveSeenOnRelays(id: number, seenOnRelays: number): Promise<HighFive | undefined>;
+  updateHighFiveNostrEvent(id: number, nostrEvent: string): Promise<HighFive | undefined>;
+  getHighFivesDueForRepublish(now: string): Promise<HighFive[]>;
+  updateHighFiveRepublishSchedule(id: number, publishAttempts: number, nextPublishAttemptAt: string | null): Promise<HighFive | undefined>;
+  
+  // Publication attempt methods
+  addHighFivePublications(publications: InsertHighFivePublication[]): Promise<HighFivePublication[]>;
+  getHighFivePublications(highFiveId: number): Promise<HighFivePublication[]>;
+  
+  // Profile cache methods
+  getProfileCacheEntry(pubkey: string): Promise<ProfileCacheEntry | undefined>;
+  upsertProfileCacheEntry(entry: ProfileCacheEntry): Promise<ProfileCacheEntry>;
+  
+  // Relay configuration methods
+  getEnabledNostrRelays(): Promise<NostrRelay[]>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private highFives: Map<number, HighFive>;
+  private profileCache: Map<string, ProfileCacheEntry>;
+  private publications: HighFivePublication[];
   private userCurrentId: number;
   private highFiveCurrentId: number;
+  private publicationCurrentId: number;
 
   constructor() {
     this.users = new Map();
     this.highFives = new Map();
+    this.profileCache = new Map();
+    this.publications = [];
     this.userCurrentId = 1;
     this.highFiveCurrentId = 1;
+    this.publicationCurrentId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -64,7 +100,30 @@ export class MemStorage implements IStorage {
       createdAt,
       nostrEventId: null,
       profileName: insertHighFive.profileName ?? null,
-      senderProfileName: insertHighFive.senderProfileName ?? null
+      senderProfileName: insertHighFive.senderProfileName ?? null,
+      qrCodePath: null,
+      paymentRequest: insertHighFive.paymentRequest ?? null,
+      paymentVerifyUrl: insertHighFive.paymentVerifyUrl ?? null,
+      paymentStatus: insertHighFive.paymentStatus ?? null,
+      paymentPreimage: null,
+      paidAt: null,
+      senderConfirmedAt: null,
+      paymentInstructions: insertHighFive.paymentInstructions ?? null,
+      lightningAddress: insertHighFive.lightningAddress ?? null,
+      publicationPolicy: insertHighFive.publicationPolicy ?? null,
+      publishAfter: insertHighFive.publishAfter ?? null,
+      publicationState: insertHighFive.publicationState ?? null,
+      amountSats: insertHighFive.amountSats ?? null,
+      fiatAmount: insertHighFive.fiatAmount ?? null,
+      fiatCurrency: insertHighFive.fiatCurrency ?? null,
+      nostrEvent: insertHighFive.nostrEvent ?? null,
+      nostrIdentifier: insertHighFive.nostrIdentifier ?? null,
+      zapRequest: insertHighFive.zapRequest ?? null,
+      zapperPubkey: insertHighFive.zapperPubkey ?? null,
+      zapReceiptId: null,
+      seenOnRelays: null,
+      publishAttempts: null,
+      nextPublishAttemptAt: null
     };
     this.highFives.set(id, highFive);
     return highFive;
@@ -77,6 +136,12 @@ export class MemStorage implements IStorage {
   async getAllHighFives(): Promise<HighFive[]> {
     return Array.from(this.highFives.values());
   }
+
+  async getHighFivesSince(id: number): Promise<HighFive[]> {
+    return Array.from(this.highFives.values()).filter(
+      (highFive) => highFive.id > id,
+    );
+  }
   
   async updateHighFiveNostrEventId(id: number, nostrEventId: string): Promise<HighFive | undefined> {
     const highFive = this.highFives.get(id);
@@ -98,6 +163,154 @@ export class MemStorage implements IStorage {
     }
     return undefined;
   }
+
+  async getHighFivesByPaymentStatus(paymentStatus: PaymentStatus): Promise<HighFive[]> {
+    return Array.from(this.highFives.values()).filter(
+      (highFive) => highFive.paymentStatus === paymentStatus,
+    );
+  }
+
+  async updateHighFivePaymentStatus(id: number, paymentStatus: PaymentStatus, paymentPreimage?: string | null): Promise<HighFive | undefined> {
+    const highFive = this.highFives.get(id);
+    if (highFive) {
+      highFive.paymentStatus = paymentStatus;
+      if (paymentStatus === 'paid') {
+        highFive.paymentPreimage = paymentPreimage ?? null;
+        highFive.paidAt = new Date().toISOString();
+      }
+      this.highFives.set(id, highFive);
+      return highFive;
+    }
+    return undefined;
+  }
+
+  async updateHighFiveSenderConfirmedAt(id: number, senderConfirmedAt: string): Promise<HighFive | undefined> {
+    const highFive = this.highFives.get(id);
+    if (highFive) {
+      highFive.senderConfirmedAt = senderConfirmedAt;
+      this.highFives.set(id, highFive);
+      return highFive;
+    }
+    return undefined;
+  }
+
+  async getHighFivesByPublicationState(publicationState: PublicationState): Promise<HighFive[]> {
+    return Array.from(this.highFives.values()).filter(
+      (highFive) => highFive.publicationState === publicationState,
+    );
+  }
+
+  async updateHighFivePublicationState(id: number, publicationState: PublicationState): Promise<HighFive | undefined> {
+    const highFive = this.highFives.get(id);
+    if (highFive) {
+      highFive.publicationState = publicationState;
+      this.highFives.set(id, highFive);
+      return highFive;
+    }
+    return undefined;
+  }
+
+  async getHighFivesAwaitingZapReceipt(): Promise<HighFive[]> {
+    return Array.from(this.highFives.values()).filter(
+      (highFive) => highFive.zapRequest !== null && highFive.zapReceiptId === null,
+    );
+  }
+
+  async updateHighFiveZapReceipt(id: number, zapReceiptId: string): Promise<HighFive | undefined> {
+    const highFive = this.highFives.get(id);
+    if (highFive) {
+      highFive.zapReceiptId = zapReceiptId;
+      this.highFives.set(id, highFive);
+      return highFive;
+    }
+    return undefined;
+  }
+
+  async updateHighFiveInvoice(id: number, paymentRequest: string, paymentVerifyUrl: string | null): Promise<HighFive | undefined> {
+    const highFive = this.highFives.get(id);
+    if (highFive) {
+      highFive.paymentRequest = paymentRequest;
+      highFive.paymentInstructions = paymentRequest;
+      highFive.paymentVerifyUrl = paymentVerifyUrl;
+      highFive.paymentStatus = paymentVerifyUrl ? 'pending' : null;
+      if (highFive.publicationState === 'abandoned') {
+        highFive.publicationState = 'queued';
+      }
+      this.highFives.set(id, highFive);
+      return highFive;
+    }
+    return undefined;
+  }
+
+  async updateHighFiveSeenOnRelays(id: number, seenOnRelays: number): Promise<HighFive | undefined> {
+    const highFive = this.highFives.get(id);
+    if (highFive) {
+      highFive.seenOnRelays = seenOnRelays;
+      this.highFives.set(id, highFive);
+      return highFive;
+    }
+    return undefined;
+  }
+
+  async updateHighFiveNostrEvent(id: number, nostrEvent: string): Promise<HighFive | undefined> {
+    const highFive = this.highFives.get(id);
+    if (highFive) {
+      highFive.nostrEvent = nostrEvent;
+      this.highFives.set(id, highFive);
+      return highFive;
+    }
+    return undefined;
+  }
+
+  async getHighFivesDueForRepublish(now: string): Promise<HighFive[]> {
+    return Array.from(this.highFives.values()).filter(
+      (highFive) => highFive.nextPublishAttemptAt !== null && highFive.nextPublishAttemptAt <= now,
+    );
+  }
+
+  async updateHighFiveRepublishSchedule(id: number, publishAttempts: number, nextPublishAttemptAt: string | null): Promise<HighFive | undefined> {
+    const highFive = this.highFives.get(id);
+    if (highFive) {
+      highFive.publishAttempts = publishAttempts;
+      highFive.nextPublishAttemptAt = nextPublishAttemptAt;
+      this.highFives.set(id, highFive);
+      return highFive;
+    }
+    return undefined;
+  }
+
+  async addHighFivePublications(publications: InsertHighFivePublication[]): Promise<HighFivePublication[]> {
+    const added = publications.map((publication) => ({
+      id: this.publicationCurrentId++,
+      highFiveId: publication.highFiveId,
+      eventId: publication.eventId,
+      relay: publication.relay,
+      status: publication.status,
+      message: publication.message ?? null,
+      latencyMs: publication.latencyMs ?? null,
+      attemptedAt: publication.attemptedAt
+    }));
+    this.publications.push(...added);
+    return added;
+  }
+
+  async getHighFivePublications(highFiveId: number): Promise<HighFivePublication[]> {
+    return this.publications.filter((publication) => publication.highFiveId === highFiveId);
+  }
+
+  async getProfileCacheEntry(pubkey: string): Promise<ProfileCacheEntry | undefined> {
+    return this.profileCache.get(pubkey);
+  }
+
+  async upsertProfileCacheEntry(entry: ProfileCacheEntry): Promise<ProfileCacheEntry> {
+    this.profileCache.set(entry.pubkey, entry);
+    return entry;
+  }
+
+  async getEnabledNostrRelays(): Promise<NostrRelay[]> {
+    // Memory storage has no relay configuration, so env vars and defaults apply
+    return [];
+  }
 }
 
 import { PgStorage } from "./pg-storage";
@@ -1,17 +1,18 @@
-import { lookupPaymentInstructions } from "./dns-util";
+import { resolveBip353 } from "./dns-util";
 
-// Sample btag to test
-const testBtag = "john@example.com";
+// Sample btag to test, or pass one on the command line.
+// Set DNS_SERVER=127.0.0.1:5353 to query a local stub server instead of the public resolver.
+const testBtag = process.argv[2] || "john@example.com";
 
 async function main() {
   console.log(`Testing payment instruction lookup for btag: ${testBtag}`);
-  
+
   try {
-    const result = await lookupPaymentInstructions(testBtag);
-    console.log("Result:", result);
+    const result = await resolveBip353(testBtag);
+    console.log("Result:", JSON.stringify(result, null, 2));
   } catch (error) {
     console.error("Error:", error);
   }
 }
 
-main().catch(console.error);
\ No newline at end of file
+main().catch(console.error);
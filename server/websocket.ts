@@ -0,0 +1,221 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from 'ws';
+import { storage } from "./storage";
+import { checkHighFivePayment } from "./payment-verifier";
+import { onHighFiveEvent, onHighFiveCreated, onHighFiveRemoved, type HighFiveEvent } from "./high-five-events";
+
+type ClientSocket = WebSocket & {
+  isAlive?: boolean;
+  // Subscription keys, e.g. "highFive:12" or "invoice:lnbc..."
+  subscriptions?: Set<string>;
+};
+
+// Messages a client can send to watch a specific high five or invoice
+type ClientMessage =
+  | { type: 'subscribe'; highFiveId?: number; invoice?: string }
+  | { type: 'unsubscribe'; highFiveId?: number; invoice?: string }
+  | { type: 'catchUp'; sinceId: number };
+
+function subscriptionKeys(message: { highFiveId?: number; invoice?: string }): string[] {
+  const keys: string[] = [];
+  if (typeof message.highFiveId === 'number') {
+    keys.push(`highFive:${message.highFiveId}`);
+  }
+  if (typeof message.invoice === 'string' && message.invoice) {
+    keys.push(`invoice:${message.invoice}`);
+  }
+  return keys;
+}
+
+function send(ws: WebSocket, payload: unknown) {
+  if (ws.readyState !== WebSocket.OPEN) {
+    return;
+  }
+  try {
+    ws.send(JSON.stringify(payload));
+  } catch (err) {
+    console.error('Error sending WebSocket message:', err);
+  }
+}
+
+/**
+ * Subscribe a client and immediately report the current state, so events
+ * that happened before the subscription aren't missed
+ */
+async function handleSubscribe(ws: ClientSocket, message: { highFiveId?: number; invoice?: string }) {
+  const keys = subscriptionKeys(message);
+  if (!keys.length) {
+    send(ws, { type: 'error', message: 'Subscribe requires a highFiveId or invoice' });
+    return;
+  }
+
+  keys.forEach((key) => ws.subscriptions!.add(key));
+  send(ws, { type: 'subscribed', highFiveId: message.highFiveId, invoice: message.invoice });
+
+  if (typeof message.highFiveId !== 'number') {
+    return;
+  }
+
+  const highFive = await storage.getHighFive(message.highFiveId);
+  if (!highFive) {
+    return;
+  }
+
+  if (highFive.paymentStatus === 'paid') {
+    send(ws, { type: 'paymentReceived', highFiveId: highFive.id, invoice: highFive.paymentRequest, paidAt: highFive.paidAt });
+  } else if (highFive.paymentStatus === 'expired') {
+    send(ws, { type: 'expired', highFiveId: highFive.id, invoice: highFive.paymentRequest });
+  } else {
+    // Checking may settle the payment, which is pushed through the event listener
+    await checkHighFivePayment(highFive);
+  }
+
+  if (highFive.nostrEventId) {
+    send(ws, { type: 'published', highFiveId: highFive.id, nostrEventId: highFive.nostrEventId, seenOnRelays: highFive.seenOnRelays });
+  }
+}
+
+/**
+ * Send a reconnecting client every high five it missed while disconnected
+ */
+async function handleCatchUp(ws: ClientSocket, sinceId: number) {
+  if (!Number.isInteger(sinceId) || sinceId < 0) {
+    send(ws, { type: 'error', message: 'catchUp requires a non-negative integer sinceId' });
+    return;
+  }
+
+  const highFives = await storage.getHighFivesSince(sinceId);
+  send(ws, {
+    type: 'highFivesSince',
+    sinceId,
+    highFives: highFives.filter((highFive) => highFive.publicationState !== 'abandoned')
+  });
+}
+
+/**
+ * Attach the /ws WebSocket server to the HTTP server
+ */
+export function setupWebSocketServer(httpServer: Server): WebSocketServer {
+  // Add WebSocket server with ping/pong for connection stability
+  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+
+  wss.on('connection', (ws: ClientSocket) => {
+    console.log('WebSocket client connected');
+
+    // Mark the connection as alive initially
+    ws.isAlive = true;
+    ws.subscriptions = new Set();
+
+    // Handle pong messages from client (responding to our ping)
+    ws.on('pong', () => {
+      ws.isAlive = true;
+    });
+
+    // Handle regular messages
+    ws.on('message', async (raw) => {
+      let message: ClientMessage | null = null;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        // Not JSON, fall through to the confirmation below
+      }
+
+      try {
+        if (message?.type === 'subscribe') {
+          await handleSubscribe(ws, message);
+        } else if (message?.type === 'unsubscribe') {
+          subscriptionKeys(message).forEach((key) => ws.subscriptions!.delete(key));
+        } else if (message?.type === 'catchUp') {
+          await handleCatchUp(ws, message.sinceId);
+        } else {
+          // Echo back confirmation to the client
+          send(ws, {
+            type: 'confirmation',
+            timestamp: Date.now()
+          });
+        }
+      } catch (err) {
+        console.error('Error handling WebSocket message:', err);
+      }
+    });
+
+    // Send welcome message to client
+    send(ws, {
+      type: 'welcome',
+      message: 'Connected to High Fives server'
+    });
+
+    // Handle connection close
+    ws.on('close', () => {
+      console.log('WebSocket client disconnected');
+    });
+
+    // Handle errors
+    ws.on('error', (error) => {
+      console.error('WebSocket error:', error);
+    });
+  });
+
+  // Push high five events to the clients subscribed to them
+  const removeEventListener = onHighFiveEvent((event: HighFiveEvent) => {
+    const keys = [`highFive:${event.highFiveId}`];
+    if ('invoice' in event && event.invoice) {
+      keys.push(`invoice:${event.invoice}`);
+    }
+
+    wss.clients.forEach((client) => {
+      const ws = client as ClientSocket;
+      if (keys.some((key) => ws.subscriptions?.has(key))) {
+        send(ws, event);
+      }
+    });
+  });
+
+  // Broadcast every new high five to all clients for the live feed
+  const removeCreatedListener = onHighFiveCreated((highFive) => {
+    wss.clients.forEach((client) => {
+      send(client, { type: 'highFiveCreated', highFive });
+    });
+  });
+
+  // Abandoned high fives leave the public list, so take them off the live feed too
+  const removeRemovedListener = onHighFiveRemoved((highFiveId) => {
+    wss.clients.forEach((client) => {
+      send(client, { type: 'highFiveRemoved', highFiveId });
+    });
+  });
+
+  // Set up a heartbeat interval to detect broken connections
+  const heartbeatInterval = setInterval(() => {
+    wss.clients.forEach((client) => {
+      const ws = client as ClientSocket;
+
+      // If the connection is not alive, terminate it
+      if (ws.isAlive === false) {
+        return ws.terminate();
+      }
+
+      // Mark as not alive, will be marked alive again when pong is received
+      ws.isAlive = false;
+
+      // Send a ping (client automatically responds with pong)
+      try {
+        ws.ping();
+      } catch (err) {
+        // If ping fails, terminate the connection
+        console.error('Error sending ping:', err);
+        ws.terminate();
+      }
+    });
+  }, 30000); // check every 30 seconds
+
+  // Clear the interval when the server closes
+  wss.on('close', () => {
+    clearInterval(heartbeatInterval);
+    removeEventListener();
+    removeCreatedListener();
+    removeRemovedListener();
+  });
+
+  return wss;
+}
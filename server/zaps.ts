@@ -0,0 +1,296 @@
+import { type Invoice, type LnUrlRawData } from '@getalby/lightning-tools';
+import { finalizeEvent, nip19, verifyEvent, type Event } from 'nostr-tools';
+import type { HighFive } from '@shared/schema';
+import { storage } from './storage';
+import { createHighFiveEvent, getServerPrivateKey, queryNostrEvents } from './nostr-publisher';
+import { getRelays } from './relay-manager';
+import { createLnurlPayClient, isAmountWithinLimits } from './lightning-tool';
+import { emitHighFiveEvent } from './high-five-events';
+
+// How often relays are asked for zap receipts of pending zaps
+const RECEIPT_INTERVAL_MS = 15000;
+
+// Zaps that haven't produced a receipt after this long are no longer watched
+const RECEIPT_WATCH_MS = 24 * 60 * 60 * 1000;
+
+// NIP-57 event kinds
+const ZAP_REQUEST_KIND = 9734;
+const ZAP_RECEIPT_KIND = 9735;
+
+let receiptTimer: NodeJS.Timeout | null = null;
+let isChecking = false;
+
+// Everything needed to pay a high five with a zap
+export interface PreparedZap {
+  note: Event; // The high five note the zap references, published later
+  zapRequest: Event;
+  invoice: Invoice;
+  zapperPubkey: string;
+}
+
+/**
+ * Prepare a NIP-57 zap for a high five to an npub recipient.
+ * The note is signed up front so the zap request can reference its event ID;
+ * the zap request is signed with the server key, like the note itself.
+ * @param highFive The high five to zap
+ * @returns The prepared zap, or null if the recipient's LNURL service doesn't support zaps
+ */
+export async function prepareHighFiveZap(highFive: {
+  identifier: string; // d tag of the structured high five event
+  recipient: string;
+  reason: string;
+  sender?: string;
+  lightningAddress: string;
+  amountSats: number;
+  comment: string;
+}): Promise<PreparedZap | null> {
+  try {
+    const { type, data: recipientPubkey } = nip19.decode(highFive.recipient);
+    if (type !== 'npub') {
+      return null;
+    }
+
+    // The recipient's profile may give an LNURL (lud06) instead of a Lightning Address
+    const ln = createLnurlPayClient(highFive.lightningAddress);
+    if (!ln) {
+      console.error(`Can't zap ${highFive.lightningAddress}: not a Lightning Address or LNURL`);
+      return null;
+    }
+
+    // Fetch the LNURL data with timeout
+    const fetchPromise = ln.fetch();
+    const timeoutPromise = new Promise((_, reject) => {
+      setTimeout(() => reject(new Error('Lightning fetch timed out after 10 seconds')), 10000);
+    });
+
+    await Promise.race([fetchPromise, timeoutPromise]);
+
+    if (!ln.lnurlpData) {
+      console.error('No LNURL pay data found for lightning address');
+      return null;
+    }
+
+    // The service announces the key it signs zap receipts with (NIP-57 appendix B)
+    const rawData = ln.lnurlpData.rawData as LnUrlRawData & { nostrPubkey?: string };
+    if (!ln.lnurlpData.allowsNostr || !rawData.nostrPubkey) {
+      console.log(`${highFive.lightningAddress} doesn't support zaps, using a plain invoice`);
+      return null;
+    }
+
+    const limits = {
+      minSats: Math.ceil(ln.lnurlpData.min / 1000),
+      maxSats: Math.floor(ln.lnurlpData.max / 1000)
+    };
+    if (!isAmountWithinLimits(highFive.amountSats, limits)) {
+      console.error(`Amount ${highFive.amountSats} sats is outside the range accepted by ${highFive.lightningAddress}`);
+      return null;
+    }
+
+    // Zaps are paid to the note, so a Lightning invoice QR code isn't part of it
+    const note = await createHighFiveEvent({
+      identifier: highFive.identifier,
+      recipient: highFive.recipient,
+      reason: highFive.reason,
+      sender: highFive.sender,
+      lightningAddress: highFive.lightningAddress,
+      amountSats: highFive.amountSats
+    });
+    const hexKey = getServerPrivateKey();
+    if (!note || !hexKey) {
+      return null;
+    }
+
+    const amountMsats = String(highFive.amountSats * 1000);
+    const zapRequest = finalizeEvent({
+      kind: ZAP_REQUEST_KIND,
+      created_at: Math.floor(Date.now() / 1000),
+      content: highFive.comment,
+      tags: [
+        ['relays', ...getRelays('publish')],
+        ['amount', amountMsats],
+        ['p', recipientPubkey],
+        ['e', note.id]
+      ]
+    }, hexKey as unknown as Uint8Array);
+
+    const invoice = await ln.generateInvoice({
+      amount: amountMsats,
+      nostr: JSON.stringify(zapRequest)
+    });
+
+    if (!invoice || !invoice.paymentRequest) {
+      console.error('Failed to generate zap invoice');
+      return null;
+    }
+
+    console.log(`Prepared zap ${zapRequest.id} for note ${note.id} to ${highFive.lightningAddress}`);
+    return { note, zapRequest, invoice, zapperPubkey: rawData.nostrPubkey };
+  } catch (error) {
+    console.error('Error preparing zap for high five:', error);
+    return null;
+  }
+}
+
+/**
+ * Request a new invoice for a zapped high five whose invoice expired, reusing its zap request
+ * so the note and the receipt watcher stay linked to it
+ * @param highFive The zapped high five
+ * @returns The new invoice, or null if the recipient's service didn't issue one
+ */
+export async function refreshZapInvoice(highFive: HighFive): Promise<Invoice | null> {
+  if (!highFive.zapRequest || !highFive.lightningAddress) {
+    return null;
+  }
+
+  try {
+    const zapRequest = JSON.parse(highFive.zapRequest) as Event;
+    const amountMsats = zapRequest.tags.find((tag) => tag[0] === 'amount')?.[1];
+    if (!amountMsats) {
+      console.error(`Zap request of high five ${highFive.id} has no amount`);
+      return null;
+    }
+
+    // The recipient's profile may give an LNURL (lud06) instead of a Lightning Address
+    const ln = createLnurlPayClient(highFive.lightningAddress);
+    if (!ln) {
+      console.error(`Can't zap ${highFive.lightningAddress}: not a Lightning Address or LNURL`);
+      return null;
+    }
+
+    // Fetch the LNURL data with timeout
+    const fetchPromise = ln.fetch();
+    const timeoutPromise = new Promise((_, reject) => {
+      setTimeout(() => reject(new Error('Lightning fetch timed out after 10 seconds')), 10000);
+    });
+
+    await Promise.race([fetchPromise, timeoutPromise]);
+
+    const invoice = await ln.generateInvoice({
+      amount: amountMsats,
+      nostr: highFive.zapRequest
+    });
+
+    if (!invoice || !invoice.paymentRequest) {
+      console.error(`Failed to refresh zap invoice for high five ${highFive.id}`);
+      return null;
+    }
+
+    return invoice;
+  } catch (error) {
+    console.error(`Error refreshing zap invoice for high five ${highFive.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Check that a zap receipt was issued by the recipient's LNURL service for this high five's zap
+ * @param receipt The kind 9735 event
+ * @param highFive The high five the receipt claims to be for
+ * @returns true if the receipt is genuine
+ */
+export function isValidZapReceipt(receipt: Event, highFive: HighFive): boolean {
+  if (receipt.kind !== ZAP_RECEIPT_KIND || receipt.pubkey !== highFive.zapperPubkey || !verifyEvent(receipt)) {
+    return false;
+  }
+
+  const bolt11 = receipt.tags.find((tag) => tag[0] === 'bolt11')?.[1];
+  if (!bolt11 || bolt11.toLowerCase() !== highFive.paymentRequest?.toLowerCase()) {
+    return false;
+  }
+
+  // The description tag carries the zap request that was paid
+  try {
+    const description = receipt.tags.find((tag) => tag[0] === 'description')?.[1];
+    const zapRequest = JSON.parse(highFive.zapRequest || '{}') as Event;
+    return !!description && JSON.parse(description).id === zapRequest.id;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Look for zap receipts of every zap that is still waiting for one
+ */
+async function checkZapReceipts(): Promise<void> {
+  const now = Date.now();
+  const awaiting = (await storage.getHighFivesAwaitingZapReceipt()).filter(
+    (highFive) => now - Date.parse(highFive.createdAt) < RECEIPT_WATCH_MS
+  );
+  if (!awaiting.length) {
+    return;
+  }
+
+  // Receipts copy the e tag of the zap request, which is the high five note
+  const byNoteId = new Map<string, HighFive>();
+  awaiting.forEach((highFive) => {
+    try {
+      const note = JSON.parse(highFive.nostrEvent || '{}') as Event;
+      if (note.id) {
+        byNoteId.set(note.id, highFive);
+      }
+    } catch (error) {
+      console.error(`Invalid stored note for high five ${highFive.id}:`, error);
+    }
+  });
+  if (!byNoteId.size) {
+    return;
+  }
+
+  const oldest = Math.min(...awaiting.map((highFive) => Date.parse(highFive.createdAt)));
+  const receipts = await queryNostrEvents({
+    kinds: [ZAP_RECEIPT_KIND],
+    '#e': Array.from(byNoteId.keys()),
+    since: Math.floor(oldest / 1000)
+  });
+
+  for (const receipt of receipts) {
+    const noteId = receipt.tags.find((tag) => tag[0] === 'e')?.[1];
+    const highFive = noteId ? byNoteId.get(noteId) : undefined;
+    if (!highFive || highFive.zapReceiptId || !isValidZapReceipt(receipt, highFive)) {
+      continue;
+    }
+
+    await storage.updateHighFiveZapReceipt(highFive.id, receipt.id);
+    highFive.zapReceiptId = receipt.id;
+    console.log(`⚡ Zap receipt ${receipt.id} linked to high five ${highFive.id}`);
+
+    // A receipt from the recipient's service is proof of payment
+    if (highFive.paymentStatus !== 'paid') {
+      const preimage = receipt.tags.find((tag) => tag[0] === 'preimage')?.[1] ?? null;
+      const updated = await storage.updateHighFivePaymentStatus(highFive.id, 'paid', preimage);
+      emitHighFiveEvent({
+        type: 'paymentReceived',
+        highFiveId: highFive.id,
+        invoice: highFive.paymentRequest,
+        paidAt: updated?.paidAt ?? null
+      });
+    }
+  }
+}
+
+/**
+ * Start periodically linking zap receipts to the high fives they pay for
+ */
+export function startZapReceiptWatcher(): void {
+  if (receiptTimer) {
+    return;
+  }
+
+  receiptTimer = setInterval(async () => {
+    // Relay queries can outlast the interval
+    if (isChecking) {
+      return;
+    }
+    isChecking = true;
+
+    try {
+      await checkZapReceipts();
+    } catch (error) {
+      console.error('Error checking zap receipts:', error);
+    } finally {
+      isChecking = false;
+    }
+  }, RECEIPT_INTERVAL_MS);
+
+  console.log(`Zap receipt watcher started (checking every ${RECEIPT_INTERVAL_MS / 1000}s)`);
+}
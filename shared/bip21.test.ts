@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeBip21, formatBip21Amount, parseBip21 } from './bip21';
+
+// The examples from BIP-21, plus the unified URIs BIP-353 records carry
+const ADDRESS = '175tWpb8K1S7NmH4Zx6rewF9WQrcZv245W';
+const OFFER = 'lno1pgx9getnwss8vetrw3hhyuckyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg';
+const INVOICE = 'lnbc2500u1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpu9qrsgquk0rl77nj30yxdy8j9vdx85fkpmdla2087ne0xh8nhedh8w27kyke0lp53ut353s06fv3qfegext0eh0ymjpf39tuven09sam30g4vgpfna3rh';
+
+const ROUND_TRIPS = [
+  `bitcoin:${ADDRESS}`,
+  `bitcoin:${ADDRESS}?label=Luke-Jr`,
+  `bitcoin:${ADDRESS}?amount=20.3&label=Luke-Jr`,
+  `bitcoin:${ADDRESS}?amount=50&label=Luke-Jr&message=Donation%20for%20project%20xyz`,
+  `bitcoin:${ADDRESS}?somethingyoudontunderstand=50&somethingelseyoudontget=999`,
+  `bitcoin:?lno=${OFFER}`,
+  `bitcoin:bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq?lightning=${INVOICE}&lno=${OFFER}&sp=sp1qqweplq6ylpfrzuq6hfznzmv28djsraupudz0s0dclyt8erh70pgwxqkz2ydatksrdzf770umsntsmcjp4kcz7jqu03jeszh0gdmpjzmrf5u4zh0c`
+];
+
+test('encodes parsed URIs back to the same string', () => {
+  for (const uri of ROUND_TRIPS) {
+    const parsed = parseBip21(uri);
+    assert.ok(parsed, uri);
+    assert.equal(encodeBip21(parsed), uri);
+    assert.deepEqual(parseBip21(encodeBip21(parsed)), parsed);
+  }
+});
+
+test('parses the payment methods and known parameters', () => {
+  assert.deepEqual(parseBip21(`bitcoin:${ADDRESS}?amount=50&label=Luke-Jr&message=Donation%20for%20project%20xyz`), {
+    address: ADDRESS,
+    amount: '50',
+    label: 'Luke-Jr',
+    message: 'Donation for project xyz',
+    params: { amount: '50', label: 'Luke-Jr', message: 'Donation for project xyz' }
+  });
+
+  const unified = parseBip21(`BITCOIN:?LNO=${OFFER}&lightning=${INVOICE}`)!;
+  assert.equal(unified.address, null);
+  assert.equal(unified.lno, OFFER);
+  assert.equal(unified.lightning, INVOICE);
+});
+
+test('lets the typed fields override params when encoding', () => {
+  const parsed = parseBip21(`bitcoin:${ADDRESS}?amount=20.3&label=Luke-Jr`)!;
+  assert.equal(encodeBip21({ ...parsed, amount: formatBip21Amount(21000) }), `bitcoin:${ADDRESS}?amount=0.00021&label=Luke-Jr`);
+});
+
+test('rejects invalid URIs', () => {
+  // Required parameters we don't understand
+  assert.equal(parseBip21(`bitcoin:${ADDRESS}?req-somethingyoudontunderstand=50&req-somethingelseyoudontget=999`), null);
+  // Repeated single-value parameters and malformed amounts
+  assert.equal(parseBip21(`bitcoin:${ADDRESS}?amount=1&amount=2`), null);
+  assert.equal(parseBip21(`bitcoin:${ADDRESS}?amount=1,5`), null);
+  assert.equal(parseBip21(`bitcoin:${ADDRESS}?amount=0.000000001`), null);
+  // Broken percent-encoding and other schemes
+  assert.equal(parseBip21(`bitcoin:${ADDRESS}?label=%E0%A4%A`), null);
+  assert.equal(parseBip21(`lightning:${INVOICE}`), null);
+});
+
+test('formats sats as BTC amounts', () => {
+  assert.equal(formatBip21Amount(1), '0.00000001');
+  assert.equal(formatBip21Amount(21000), '0.00021');
+  assert.equal(formatBip21Amount(100_000_000), '1');
+  assert.equal(formatBip21Amount(2_030_000_000), '20.3');
+});
@@ -0,0 +1,131 @@
+// BIP-21 bitcoin: URI parsing, shared by the server and the client
+
+// A parsed bitcoin: URI. Payment methods other than the on-chain address are optional parameters.
+export interface Bip21Uri {
+  address: string | null; // On-chain address, null for address-less URIs such as BIP-353 offers
+  amount?: string; // In BTC, as written in the URI
+  label?: string;
+  message?: string;
+  lightning?: string; // BOLT11 invoice
+  lno?: string; // BOLT12 offer
+  sp?: string; // Silent payment address
+  params: Record<string, string>; // Every parameter, keyed by lowercase name (first occurrence wins)
+}
+
+// Parameters that may appear at most once
+const SINGLE_VALUE_PARAMS = ['amount', 'label', 'message'];
+
+/**
+ * Parse a BIP-21 bitcoin: URI
+ * @param uri The URI, e.g. "bitcoin:?lno=lno1..."
+ * @returns The parsed URI, or null if it isn't a valid bitcoin: URI or has
+ * required (req-) parameters we don't understand
+ */
+export function parseBip21(uri: string): Bip21Uri | null {
+  const trimmed = uri.trim();
+  if (!/^bitcoin:/i.test(trimmed)) {
+    return null;
+  }
+
+  const rest = trimmed.slice('bitcoin:'.length);
+  const queryStart = rest.indexOf('?');
+  const path = queryStart === -1 ? rest : rest.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : rest.slice(queryStart + 1);
+
+  let address: string | null;
+  try {
+    address = path ? decodeURIComponent(path) : null;
+  } catch {
+    return null;
+  }
+
+  const result: Bip21Uri = { address, params: {} };
+
+  for (const pair of query.split('&')) {
+    if (!pair) {
+      continue;
+    }
+
+    const separator = pair.indexOf('=');
+    let key: string;
+    let value: string;
+    try {
+      key = decodeURIComponent(separator === -1 ? pair : pair.slice(0, separator)).toLowerCase();
+      value = separator === -1 ? '' : decodeURIComponent(pair.slice(separator + 1));
+    } catch {
+      return null;
+    }
+
+    // BIP-21: a required parameter we don't understand makes the whole URI invalid
+    if (key.startsWith('req-')) {
+      return null;
+    }
+
+    if (key in result.params) {
+      if (SINGLE_VALUE_PARAMS.includes(key)) {
+        return null;
+      }
+      continue;
+    }
+    result.params[key] = value;
+
+    switch (key) {
+      case 'amount':
+        if (!/^\d+(\.\d{1,8})?$/.test(value)) {
+          return null;
+        }
+        result.amount = value;
+        break;
+      case 'label':
+        result.label = value;
+        break;
+      case 'message':
+        result.message = value;
+        break;
+      case 'lightning':
+        result.lightning = value;
+        break;
+      case 'lno':
+        result.lno = value;
+        break;
+      case 'sp':
+        result.sp = value;
+        break;
+    }
+  }
+
+  return result;
+}
+
+const SATS_PER_BTC = 100_000_000;
+
+/**
+ * Format an amount of sats as a BIP-21 amount in BTC, e.g. 21000 -> "0.00021"
+ */
+export function formatBip21Amount(amountSats: number): string {
+  const whole = Math.floor(amountSats / SATS_PER_BTC);
+  const fraction = String(amountSats % SATS_PER_BTC).padStart(8, '0').replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : String(whole);
+}
+
+/**
+ * Encode a parsed URI back into a bitcoin: URI. The typed fields win over
+ * the same keys in params, so callers can change the amount or message.
+ * @param uri The parsed URI
+ * @returns The bitcoin: URI
+ */
+export function encodeBip21(uri: Bip21Uri): string {
+  const params: Record<string, string> = { ...uri.params };
+  const fields: (keyof Omit<Bip21Uri, 'address' | 'params'>)[] = ['amount', 'label', 'message', 'lightning', 'lno', 'sp'];
+  for (const field of fields) {
+    const value = uri[field];
+    if (value !== undefined) {
+      params[field] = value;
+    }
+  }
+
+  const query = Object.entries(params)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+  return `bitcoin:${uri.address ?? ''}${query ? `?${query}` : ''}`;
+}
@@ -0,0 +1,159 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bech32 } from '@scure/base';
+import { decodeBolt12Offer, formatBolt12OfferAmount, isBolt12OfferExpired, isBolt12OfferForNetwork } from './bolt12';
+
+// Valid offers from the BOLT12 test vectors (bolt12/offers-test.json)
+const VECTORS = {
+  minimal: 'lno1zcss9mk8y3wkklfvevcrszlmu23kfrxh49px20665dqwmn4p72pksese',
+  description: 'lno1pgx9getnwss8vetrw3hhyuckyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg',
+  testnet: 'lno1qgsyxjtl6luzd9t3pr62xr7eemp6awnejusgf6gw45q75vcfqqqqqqq2p32x2um5ypmx2cm5dae8x93pqthvwfzadd7jejes8q9lhc4rvjxd022zv5l44g6qah82ru5rdpnpj',
+  bitcoin: 'lno1qgsxlc5vp2m0rvmjcxn2y34wv0m5lyc7sdj7zksgn35dvxgqqqqqqqq2p32x2um5ypmx2cm5dae8x93pqthvwfzadd7jejes8q9lhc4rvjxd022zv5l44g6qah82ru5rdpnpj',
+  amount: 'lno1pqpzwyq2p32x2um5ypmx2cm5dae8x93pqthvwfzadd7jejes8q9lhc4rvjxd022zv5l44g6qah82ru5rdpnpj',
+  currency: 'lno1qcp4256ypqpzwyq2p32x2um5ypmx2cm5dae8x93pqthvwfzadd7jejes8q9lhc4rvjxd022zv5l44g6qah82ru5rdpnpj',
+  expiry: 'lno1pgx9getnwss8vetrw3hhyucwq3ay997czcss9mk8y3wkklfvevcrszlmu23kfrxh49px20665dqwmn4p72pksese',
+  issuer: 'lno1pgx9getnwss8vetrw3hhyucjy358garswvaz7tmzdak8gvfj9ehhyeeqgf85c4p3xgsxjmnyw4ehgunfv4e3vggzamrjghtt05kvkvpcp0a79gmy3nt6jsn98ad2xs8de6sl9qmgvcvs',
+  unknownOdd: 'lno1pgx9getnwss8vetrw3hhyuckyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxfppf5x2mrvdamk7unvvs'
+};
+
+const ISSUER_ID = '02eec7245d6b7d2ccb30380bfbe2a3648cd7a942653f5aa340edcea1f283686619';
+const SIGNET = 'f61eee3b63a380a477a063af32b2bbc97c9ff9f01f2c4225e973988108000000';
+const MAINNET = '6fe28c0ab6f1b372c1a6a246ae63f74f931e8365e15a089c68d6190000000000';
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+// Encode raw TLV bytes as an offer, bech32 without a checksum
+function encodeOffer(bytes: Buffer): string {
+  return 'lno1' + bech32.toWords(bytes).map((word) => BECH32_CHARSET[word]).join('');
+}
+
+// A TLV record with a single-byte type and length
+function tlv(type: number, value: Buffer | string): Buffer {
+  const bytes = typeof value === 'string' ? Buffer.from(value, 'utf8') : value;
+  return Buffer.concat([Buffer.from([type, bytes.length]), bytes]);
+}
+
+const description = tlv(10, 'Test vectors');
+const issuerId = tlv(22, Buffer.from(ISSUER_ID, 'hex'));
+
+test('decodes the valid offers from the test vectors', () => {
+  assert.deepEqual(decodeBolt12Offer(VECTORS.minimal), {
+    description: null,
+    issuer: null,
+    issuerId: ISSUER_ID,
+    amount: null,
+    currency: null,
+    absoluteExpiry: null,
+    chains: ['mainnet'],
+    paths: [],
+    quantityMax: null
+  });
+  assert.equal(decodeBolt12Offer(VECTORS.description)?.description, 'Test vectors');
+  assert.equal(decodeBolt12Offer(VECTORS.issuer)?.issuer, 'https://bolt12.org BOLT12 industries');
+  assert.equal(decodeBolt12Offer(VECTORS.expiry)?.absoluteExpiry, 2051184600);
+
+  // Unknown odd fields can be ignored
+  assert.equal(decodeBolt12Offer(VECTORS.unknownOdd)?.description, 'Test vectors');
+});
+
+test('decodes amounts in millisats or in a currency', () => {
+  const sats = decodeBolt12Offer(VECTORS.amount)!;
+  assert.deepEqual([sats.amount, sats.currency], [10000, null]);
+  assert.equal(formatBolt12OfferAmount(sats), '₿10');
+
+  const dollars = decodeBolt12Offer(VECTORS.currency)!;
+  assert.deepEqual([dollars.amount, dollars.currency], [10000, 'USD']);
+  assert.equal(formatBolt12OfferAmount(dollars), '$100.00');
+
+  assert.equal(formatBolt12OfferAmount(decodeBolt12Offer(VECTORS.description)!), null);
+});
+
+test('accepts offers split with "+" and in upper case', () => {
+  const split = `${VECTORS.description.slice(0, 30)}+\n  ${VECTORS.description.slice(30)}`;
+  assert.equal(decodeBolt12Offer(split)?.description, 'Test vectors');
+  assert.equal(decodeBolt12Offer(VECTORS.description.toUpperCase())?.description, 'Test vectors');
+});
+
+test('reads which chains an offer is for', () => {
+  const testnet = decodeBolt12Offer(VECTORS.testnet)!;
+  assert.deepEqual(testnet.chains, ['testnet']);
+  assert.equal(isBolt12OfferForNetwork(testnet, 'mainnet'), false);
+  assert.equal(isBolt12OfferForNetwork(testnet, 'testnet'), true);
+
+  // Naming the bitcoin chain explicitly is redundant but allowed
+  assert.equal(isBolt12OfferForNetwork(decodeBolt12Offer(VECTORS.bitcoin)!, 'mainnet'), true);
+  assert.equal(isBolt12OfferForNetwork(decodeBolt12Offer(VECTORS.description)!, 'signet'), false);
+
+  const chains = Buffer.concat([Buffer.from(SIGNET, 'hex'), Buffer.from(MAINNET, 'hex')]);
+  const both = decodeBolt12Offer(encodeOffer(Buffer.concat([tlv(2, chains), description, issuerId])))!;
+  assert.deepEqual(both.chains, ['signet', 'mainnet']);
+  assert.equal(isBolt12OfferForNetwork(both, 'signet'), true);
+  assert.equal(isBolt12OfferForNetwork(both, 'regtest'), false);
+});
+
+test('decodes blinded paths, which can stand in for the issuer ID', () => {
+  const hop = Buffer.concat([Buffer.alloc(33, 3), Buffer.from([0x00, 0x02, 0xab, 0xcd])]);
+  const byNode = Buffer.concat([Buffer.from(ISSUER_ID, 'hex'), Buffer.alloc(33, 2), Buffer.from([2]), hop, hop]);
+  // Short channel ID 700000x1x2, direction 1
+  const byChannel = Buffer.concat([Buffer.from([1, 0x0a, 0xae, 0x60, 0, 0, 1, 0, 2]), Buffer.alloc(33, 2), Buffer.from([1]), hop]);
+
+  const offer = decodeBolt12Offer(encodeOffer(Buffer.concat([description, tlv(16, Buffer.concat([byNode, byChannel]))])));
+  assert.deepEqual(offer?.paths, [
+    { introductionNode: ISSUER_ID, numHops: 2 },
+    { introductionNode: '700000x1x2/1', numHops: 1 }
+  ]);
+  assert.equal(offer?.issuerId, null);
+
+  // A path with no hops
+  const empty = Buffer.concat([Buffer.from(ISSUER_ID, 'hex'), Buffer.alloc(33, 2), Buffer.from([0])]);
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([description, tlv(16, empty)]))), null);
+});
+
+test('checks the absolute expiry', () => {
+  const offer = decodeBolt12Offer(VECTORS.expiry)!;
+  assert.equal(isBolt12OfferExpired(offer, 2051184599 * 1000), false);
+  assert.equal(isBolt12OfferExpired(offer, 2051184600 * 1000), true);
+  assert.equal(isBolt12OfferExpired(decodeBolt12Offer(VECTORS.description)!, Date.UTC(2100, 0, 1)), false);
+});
+
+test('rejects TLV streams that are out of order or repeat a field', () => {
+  assert.ok(decodeBolt12Offer(encodeOffer(Buffer.concat([description, issuerId]))));
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([issuerId, description]))), null);
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([description, description, issuerId]))), null);
+});
+
+test('rejects unknown even fields and fields outside the offer ranges', () => {
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([description, issuerId, tlv(24, 'x')]))), null);
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([description, issuerId, tlv(81, 'x')]))), null);
+});
+
+test('rejects malformed values and encodings', () => {
+  // Truncated value
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([description, issuerId.subarray(0, 20)]))), null);
+  // Non-minimal BigSize type: 0xfd 0x000a for type 10
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([Buffer.from([0xfd, 0x00, 0x0a]), description.subarray(1), issuerId]))), null);
+  // Amount with a leading zero byte
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([tlv(8, Buffer.from([0x00, 0x64])), description, issuerId]))), null);
+  // Issuer ID of the wrong length
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([description, tlv(22, Buffer.alloc(32, 2))]))), null);
+  // Chains that aren't whole 32-byte hashes
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([tlv(2, Buffer.alloc(31)), description, issuerId]))), null);
+  // Invalid UTF-8 description
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([tlv(10, Buffer.from([0xff])), issuerId]))), null);
+
+  // Mixed case, a character outside the bech32 alphabet, and other prefixes
+  assert.equal(decodeBolt12Offer(VECTORS.description.slice(0, 10) + VECTORS.description.slice(10).toUpperCase()), null);
+  assert.equal(decodeBolt12Offer(VECTORS.description.replace('q', 'b')), null);
+  assert.equal(decodeBolt12Offer(VECTORS.description.replace('lno1', 'lni1')), null);
+  assert.equal(decodeBolt12Offer('lno1'), null);
+});
+
+test('rejects field combinations the spec forbids', () => {
+  // Amount without a description
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([tlv(8, Buffer.from([0x64])), issuerId]))), null);
+  // Zero amount
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([tlv(8, Buffer.alloc(0)), description, issuerId]))), null);
+  // Currency without an amount
+  assert.equal(decodeBolt12Offer(encodeOffer(Buffer.concat([tlv(6, 'USD'), description, issuerId]))), null);
+  // Neither an issuer ID nor blinded paths
+  assert.equal(decodeBolt12Offer(encodeOffer(description)), null);
+});
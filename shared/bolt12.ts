@@ -0,0 +1,324 @@
+// BOLT12 offer decoding, shared by the server and the client.
+// Offers are bech32 without a checksum ("lno1..."), wrapping a TLV stream.
+import { formatSats, formatFiat } from './honorarium';
+
+export type BitcoinNetwork = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+// First node of a blinded path: a node ID, or a short channel ID with a direction
+export interface Bolt12BlindedPath {
+  introductionNode: string; // Hex pubkey, or "<scid>/<direction>"
+  numHops: number;
+}
+
+export interface Bolt12Offer {
+  description: string | null;
+  issuer: string | null;
+  issuerId: string | null; // Hex pubkey
+  amount: number | null; // Msats without a currency, otherwise the currency's minor units
+  currency: string | null; // ISO 4217 code
+  absoluteExpiry: number | null; // Seconds since the epoch
+  chains: string[]; // Network names, or hex chain hashes we don't recognise
+  paths: Bolt12BlindedPath[];
+  quantityMax: number | null;
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+// Genesis block hashes in the byte order BOLT12 uses
+const CHAIN_HASHES: Record<string, BitcoinNetwork> = {
+  '6fe28c0ab6f1b372c1a6a246ae63f74f931e8365e15a089c68d6190000000000': 'mainnet',
+  '43497fd7f826957108f4a30fd9cec3aeba79972084e90ead01ea330900000000': 'testnet',
+  'f61eee3b63a380a477a063af32b2bbc97c9ff9f01f2c4225e973988108000000': 'signet',
+  '06226e46111a0b59caaf126043eb5bbf28c34f3a5e332a1fc7b2b73cf188910f': 'regtest'
+};
+
+// Offer TLV types (BOLT12 "Offers")
+const OFFER_CHAINS = 2;
+const OFFER_METADATA = 4;
+const OFFER_CURRENCY = 6;
+const OFFER_AMOUNT = 8;
+const OFFER_DESCRIPTION = 10;
+const OFFER_FEATURES = 12;
+const OFFER_ABSOLUTE_EXPIRY = 14;
+const OFFER_PATHS = 16;
+const OFFER_ISSUER = 18;
+const OFFER_QUANTITY_MAX = 20;
+const OFFER_ISSUER_ID = 22;
+
+const KNOWN_OFFER_TYPES = [
+  OFFER_CHAINS, OFFER_METADATA, OFFER_CURRENCY, OFFER_AMOUNT, OFFER_DESCRIPTION, OFFER_FEATURES,
+  OFFER_ABSOLUTE_EXPIRY, OFFER_PATHS, OFFER_ISSUER, OFFER_QUANTITY_MAX, OFFER_ISSUER_ID
+];
+
+// Reads the fixed and variable size integers TLV streams are made of
+class ByteReader {
+  private position = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.position >= this.bytes.length;
+  }
+
+  read(length: number): Uint8Array {
+    if (this.position + length > this.bytes.length) {
+      throw new Error('Unexpected end of data');
+    }
+    const slice = this.bytes.subarray(this.position, this.position + length);
+    this.position += length;
+    return slice;
+  }
+
+  readInt(length: number): number {
+    return this.read(length).reduce((value, byte) => value * 256 + byte, 0);
+  }
+
+  // BigSize (BOLT1), which must use its shortest encoding
+  readBigSize(): number {
+    const first = this.readInt(1);
+    if (first < 0xfd) {
+      return first;
+    }
+    const [length, minimum] = first === 0xfd ? [2, 0xfd] : first === 0xfe ? [4, 0x10000] : [8, 0x100000000];
+    const value = this.readInt(length);
+    if (value < minimum) {
+      throw new Error('Non-minimal BigSize');
+    }
+    return value;
+  }
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toUtf8(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
+
+// Truncated unsigned integer: big-endian without leading zero bytes
+function toTu64(bytes: Uint8Array): number {
+  if (bytes.length > 8 || (bytes.length > 0 && bytes[0] === 0)) {
+    throw new Error('Invalid truncated integer');
+  }
+  return new ByteReader(bytes).readInt(bytes.length);
+}
+
+/**
+ * Decode the bech32 data part of an offer into bytes, without a checksum
+ */
+function decodeBech32Data(offer: string): Uint8Array | null {
+  // Long offers may be split with "+" followed by whitespace
+  const joined = offer.replace(/\+\s*/g, '').trim();
+  if (joined !== joined.toLowerCase() && joined !== joined.toUpperCase()) {
+    return null;
+  }
+
+  const lower = joined.toLowerCase();
+  if (!lower.startsWith('lno1')) {
+    return null;
+  }
+
+  const bytes: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  for (const char of lower.slice('lno1'.length)) {
+    const value = BECH32_CHARSET.indexOf(char);
+    if (value === -1) {
+      return null;
+    }
+    accumulator = (accumulator << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+  }
+
+  // Leftover padding must be short and zero
+  if (bits >= 5 || (accumulator & ((1 << bits) - 1)) !== 0) {
+    return null;
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode the blinded paths of an offer, keeping only what's useful to show
+ */
+function decodePaths(value: Uint8Array): Bolt12BlindedPath[] {
+  const reader = new ByteReader(value);
+  const paths: Bolt12BlindedPath[] = [];
+
+  while (!reader.done) {
+    const first = reader.readInt(1);
+    let introductionNode: string;
+    if (first === 2 || first === 3) {
+      introductionNode = first.toString(16).padStart(2, '0') + toHex(reader.read(32));
+    } else if (first === 0 || first === 1) {
+      const scid = reader.read(8);
+      const block = (scid[0] << 16) | (scid[1] << 8) | scid[2];
+      const tx = (scid[3] << 16) | (scid[4] << 8) | scid[5];
+      const output = (scid[6] << 8) | scid[7];
+      introductionNode = `${block}x${tx}x${output}/${first}`;
+    } else {
+      throw new Error('Invalid blinded path introduction node');
+    }
+
+    reader.read(33); // First path key
+    const numHops = reader.readInt(1);
+    if (numHops === 0) {
+      throw new Error('Blinded path has no hops');
+    }
+    for (let hop = 0; hop < numHops; hop++) {
+      reader.read(33); // Blinded node ID
+      reader.read(reader.readInt(2)); // Encrypted recipient data
+    }
+
+    paths.push({ introductionNode, numHops });
+  }
+
+  return paths;
+}
+
+/**
+ * Decode a BOLT12 offer
+ * @param offer The offer, e.g. "lno1..."
+ * @returns The decoded offer, or null if it's malformed or has fields we must understand but don't
+ */
+export function decodeBolt12Offer(offer: string): Bolt12Offer | null {
+  const data = decodeBech32Data(offer);
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  const result: Bolt12Offer = {
+    description: null,
+    issuer: null,
+    issuerId: null,
+    amount: null,
+    currency: null,
+    absoluteExpiry: null,
+    chains: ['mainnet'], // Offers without chains are for bitcoin
+    paths: [],
+    quantityMax: null
+  };
+
+  try {
+    const reader = new ByteReader(data);
+    let lastType = -1;
+
+    while (!reader.done) {
+      const type = reader.readBigSize();
+      const value = reader.read(reader.readBigSize());
+
+      if (type <= lastType) {
+        return null;
+      }
+      lastType = type;
+
+      // Offers may only use the offer TLV ranges
+      if (!((type >= 1 && type <= 79) || (type >= 1000000000 && type <= 1999999999))) {
+        return null;
+      }
+
+      switch (type) {
+        case OFFER_CHAINS:
+          if (value.length === 0 || value.length % 32 !== 0) {
+            return null;
+          }
+          result.chains = [];
+          for (let i = 0; i < value.length; i += 32) {
+            const hash = toHex(value.subarray(i, i + 32));
+            result.chains.push(CHAIN_HASHES[hash] ?? hash);
+          }
+          break;
+        case OFFER_CURRENCY:
+          result.currency = toUtf8(value);
+          break;
+        case OFFER_AMOUNT:
+          result.amount = toTu64(value);
+          break;
+        case OFFER_DESCRIPTION:
+          result.description = toUtf8(value);
+          break;
+        case OFFER_ABSOLUTE_EXPIRY:
+          result.absoluteExpiry = toTu64(value);
+          break;
+        case OFFER_PATHS:
+          result.paths = decodePaths(value);
+          if (result.paths.length === 0) {
+            return null;
+          }
+          break;
+        case OFFER_ISSUER:
+          result.issuer = toUtf8(value);
+          break;
+        case OFFER_QUANTITY_MAX:
+          result.quantityMax = toTu64(value);
+          break;
+        case OFFER_ISSUER_ID:
+          if (value.length !== 33) {
+            return null;
+          }
+          result.issuerId = toHex(value);
+          break;
+        default:
+          // Unknown even fields must be understood; odd ones can be ignored
+          if (!KNOWN_OFFER_TYPES.includes(type) && type % 2 === 0) {
+            return null;
+          }
+      }
+    }
+  } catch {
+    return null;
+  }
+
+  // Field combinations the spec requires
+  if (result.amount === 0 || (result.amount !== null && result.description === null)) {
+    return null;
+  }
+  if (result.currency !== null && result.amount === null) {
+    return null;
+  }
+  if (result.issuerId === null && result.paths.length === 0) {
+    return null;
+  }
+
+  return result;
+}
+
+/**
+ * Check whether an offer's absolute expiry has passed
+ */
+export function isBolt12OfferExpired(offer: Bolt12Offer, now: number = Date.now()): boolean {
+  return offer.absoluteExpiry !== null && offer.absoluteExpiry * 1000 <= now;
+}
+
+/**
+ * Check whether an offer can be paid on the given network
+ */
+export function isBolt12OfferForNetwork(offer: Bolt12Offer, network: BitcoinNetwork): boolean {
+  return offer.chains.includes(network);
+}
+
+/**
+ * Format the amount an offer asks for, e.g. "₿5,000" or "$5.00"
+ * @returns The amount, or null for offers that let the payer choose
+ */
+export function formatBolt12OfferAmount(offer: Bolt12Offer): string | null {
+  if (offer.amount === null) {
+    return null;
+  }
+  if (offer.currency === null) {
+    return formatSats(Math.ceil(offer.amount / 1000));
+  }
+
+  // Currency amounts are in the currency's minor unit, e.g. cents
+  try {
+    const exponent = new Intl.NumberFormat('en-US', { style: 'currency', currency: offer.currency })
+      .resolvedOptions().maximumFractionDigits ?? 2;
+    return formatFiat(offer.amount / Math.pow(10, exponent), offer.currency);
+  } catch {
+    return `${offer.amount} ${offer.currency}`;
+  }
+}
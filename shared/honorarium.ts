@@ -0,0 +1,32 @@
+// Honorarium amounts shared by the server and the client
+
+// Amount suggested when the sender doesn't pick one
+export const DEFAULT_HONORARIUM_SATS = 21000;
+
+// Amounts offered as one-tap choices in the form
+export const HONORARIUM_PRESETS_SATS = [1000, 5000, 21000, 100000];
+
+/**
+ * Format an amount of sats the way we show it everywhere, e.g. "₿21,000"
+ */
+export function formatSats(amountSats: number): string {
+  return `₿${amountSats.toLocaleString('en-US')}`;
+}
+
+// Fiat currencies senders can denominate a honorarium in
+export const fiatCurrencies = ["USD", "EUR", "GBP", "CAD", "CHF", "AUD", "JPY"] as const;
+export type FiatCurrency = typeof fiatCurrencies[number];
+
+/**
+ * Check whether a string is one of the supported fiat currency codes
+ */
+export function isFiatCurrency(value: unknown): value is FiatCurrency {
+  return typeof value === 'string' && (fiatCurrencies as readonly string[]).includes(value);
+}
+
+/**
+ * Format a fiat amount with its currency symbol, e.g. "$5.00"
+ */
+export function formatFiat(amount: string | number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Number(amount));
+}
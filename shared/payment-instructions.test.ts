@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  encodePaymentInstruction,
+  getPaymentInstructionValue,
+  isPaymentInstructionForNetwork,
+  parsePaymentInstruction,
+  parsePaymentInstructions,
+  type PaymentInstruction
+} from './payment-instructions';
+
+const OFFER = 'lno1pgx9getnwss8vetrw3hhyuckyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg';
+const INVOICE = 'lnbc2500u1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpu9qrsgquk0rl77nj30yxdy8j9vdx85fkpmdla2087ne0xh8nhedh8w27kyke0lp53ut353s06fv3qfegext0eh0ymjpf39tuven09sam30g4vgpfna3rh';
+const LNURL = 'lnurl1dp68gurn8ghj7um9wfmxjcm99e3k7mf0v9cxj0m385ekvcenxc6r2c35xvukxefcv5mkvv34x5ekzd3ev56nyd3hxqurzepexejxxepnxscrvwfnv9nxzcn9xq6xyefhvgcxxcmyxymnserxfq5fns';
+const ADDRESS = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+const SILENT_PAYMENT = 'sp1qqweplq6ylpfrzuq6hfznzmv28djsraupudz0s0dclyt8erh70pgwxqkz2ydatksrdzf770umsntsmcjp4kcz7jqu03jeszh0gdmpjzmrf5u4zh0c';
+
+test('recognises bare invoices, offers, LNURLs and addresses', () => {
+  assert.deepEqual(parsePaymentInstruction(INVOICE), { type: 'bolt11', invoice: INVOICE });
+  assert.deepEqual(parsePaymentInstruction(`lightning:${INVOICE}`), { type: 'bolt11', invoice: INVOICE });
+  assert.deepEqual(parsePaymentInstruction(OFFER), { type: 'bolt12', offer: OFFER });
+  assert.deepEqual(parsePaymentInstruction(LNURL), { type: 'lnurl', lnurl: LNURL });
+  assert.deepEqual(parsePaymentInstruction(ADDRESS), { type: 'onchain', address: ADDRESS });
+  assert.deepEqual(parsePaymentInstruction('175tWpb8K1S7NmH4Zx6rewF9WQrcZv245W'), { type: 'onchain', address: '175tWpb8K1S7NmH4Zx6rewF9WQrcZv245W' });
+  assert.deepEqual(parsePaymentInstruction(SILENT_PAYMENT), { type: 'silent_payment', address: SILENT_PAYMENT });
+  assert.equal(parsePaymentInstruction('alice@example.com'), null);
+  assert.equal(parsePaymentInstruction(''), null);
+});
+
+test('lists the methods of a unified URI from most to least preferred', () => {
+  const uri = `bitcoin:${ADDRESS}?amount=0.00021&sp=${SILENT_PAYMENT}&lightning=${INVOICE}&lno=${OFFER}`;
+  assert.deepEqual(parsePaymentInstructions(uri), [
+    { type: 'bolt12', offer: OFFER },
+    { type: 'bolt11', invoice: INVOICE },
+    { type: 'silent_payment', address: SILENT_PAYMENT },
+    { type: 'onchain', address: ADDRESS, amount: '0.00021' }
+  ]);
+  assert.deepEqual(parsePaymentInstruction(uri), { type: 'bolt12', offer: OFFER });
+
+  // Methods that don't match their parameter are skipped
+  assert.deepEqual(parsePaymentInstructions(`bitcoin:?lno=${INVOICE}&lightning=${OFFER}`), []);
+  assert.deepEqual(parsePaymentInstructions(`bitcoin:${ADDRESS}?req-pj=https://example.com`), []);
+});
+
+test('encodes each method as the string a wallet scans, and parses it back', () => {
+  const instructions: PaymentInstruction[] = [
+    { type: 'bolt11', invoice: INVOICE },
+    { type: 'bolt12', offer: OFFER },
+    { type: 'lnurl', lnurl: LNURL },
+    { type: 'onchain', address: ADDRESS, amount: '0.00021' },
+    { type: 'silent_payment', address: SILENT_PAYMENT }
+  ];
+  for (const instruction of instructions) {
+    assert.deepEqual(parsePaymentInstruction(encodePaymentInstruction(instruction)), instruction);
+  }
+
+  assert.equal(encodePaymentInstruction({ type: 'bolt12', offer: OFFER }), `bitcoin:?lno=${OFFER}`);
+  assert.equal(encodePaymentInstruction({ type: 'onchain', address: ADDRESS }), `bitcoin:${ADDRESS}`);
+  assert.equal(getPaymentInstructionValue({ type: 'bolt12', offer: OFFER }), OFFER);
+});
+
+test('matches addresses to their network', () => {
+  const onchain = (address: string): PaymentInstruction => ({ type: 'onchain', address });
+  assert.equal(isPaymentInstructionForNetwork(onchain(ADDRESS), 'mainnet'), true);
+  assert.equal(isPaymentInstructionForNetwork(onchain(ADDRESS), 'signet'), false);
+  assert.equal(isPaymentInstructionForNetwork(onchain('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx'), 'signet'), true);
+  assert.equal(isPaymentInstructionForNetwork(onchain('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx'), 'mainnet'), false);
+  assert.equal(isPaymentInstructionForNetwork(onchain('bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080'), 'regtest'), true);
+  assert.equal(isPaymentInstructionForNetwork({ type: 'silent_payment', address: SILENT_PAYMENT }, 'mainnet'), true);
+  assert.equal(isPaymentInstructionForNetwork({ type: 'silent_payment', address: `t${SILENT_PAYMENT}` }, 'mainnet'), false);
+
+  // Lightning strings carry their own network
+  assert.equal(isPaymentInstructionForNetwork({ type: 'bolt12', offer: OFFER }, 'signet'), true);
+});
@@ -0,0 +1,172 @@
+// Payment instructions shared by the server and the client.
+// Raw strings (invoices, offers, bitcoin: URIs) are parsed once into a PaymentInstruction
+// so nothing downstream has to guess what kind of string it was handed.
+import { parseBip21 } from './bip21';
+import type { BitcoinNetwork } from './bolt12';
+
+export type PaymentInstruction =
+  | { type: 'bolt11'; invoice: string }
+  | { type: 'bolt12'; offer: string }
+  | { type: 'lnurl'; lnurl: string } // LNURL-pay, bech32-encoded (LUD-01)
+  | { type: 'onchain'; address: string; amount?: string } // Amount in BTC, as in BIP-21
+  | { type: 'silent_payment'; address: string }; // BIP-352
+
+export type PaymentInstructionType = PaymentInstruction['type'];
+
+// Human readable names, e.g. for QR code captions
+export const PAYMENT_INSTRUCTION_LABELS: Record<PaymentInstructionType, string> = {
+  bolt11: 'Lightning invoice',
+  bolt12: 'BOLT12 offer',
+  lnurl: 'LNURL',
+  onchain: 'bitcoin address',
+  silent_payment: 'silent payment address'
+};
+
+const BOLT11_PATTERN = /^ln(bc|tb|tbs|bcrt|sb)[0-9a-z]*1[0-9a-z]+$/i;
+const BOLT12_OFFER_PATTERN = /^lno1[0-9a-z]+$/i;
+const LNURL_PATTERN = /^lnurl1[0-9a-z]+$/i;
+const SILENT_PAYMENT_PATTERN = /^t?sp1[0-9a-z]+$/i;
+const SEGWIT_ADDRESS_PATTERN = /^(bc|tb|bcrt)1[02-9ac-hj-np-z]{8,87}$/i;
+const BASE58_ADDRESS_PATTERN = /^[123mn][1-9A-HJ-NP-Za-km-z]{25,34}$/;
+
+/**
+ * Classify a bare string that isn't a bitcoin: URI
+ */
+function parseBareInstruction(value: string): PaymentInstruction | null {
+  // Wallets often prefix Lightning strings with "lightning:"
+  const stripped = value.replace(/^lightning:/i, '');
+
+  if (BOLT12_OFFER_PATTERN.test(stripped)) {
+    return { type: 'bolt12', offer: stripped };
+  }
+  if (LNURL_PATTERN.test(stripped)) {
+    return { type: 'lnurl', lnurl: stripped };
+  }
+  if (BOLT11_PATTERN.test(stripped)) {
+    return { type: 'bolt11', invoice: stripped };
+  }
+  if (SILENT_PAYMENT_PATTERN.test(stripped)) {
+    return { type: 'silent_payment', address: stripped };
+  }
+  if (SEGWIT_ADDRESS_PATTERN.test(stripped) || BASE58_ADDRESS_PATTERN.test(stripped)) {
+    return { type: 'onchain', address: stripped };
+  }
+  return null;
+}
+
+/**
+ * Parse a payment instruction string into every payment method it offers.
+ * A unified bitcoin: URI can carry several, listed here from most to least preferred:
+ * BOLT12 offer, BOLT11 invoice, silent payment, then the on-chain address.
+ * @param raw An invoice, offer, LNURL, address or bitcoin: URI
+ * @returns The payment methods, empty if none were recognised
+ */
+export function parsePaymentInstructions(raw: string): PaymentInstruction[] {
+  const value = raw.trim();
+
+  if (!/^bitcoin:/i.test(value)) {
+    const instruction = parseBareInstruction(value);
+    return instruction ? [instruction] : [];
+  }
+
+  const uri = parseBip21(value);
+  if (!uri) {
+    return [];
+  }
+
+  const instructions: PaymentInstruction[] = [];
+  if (uri.lno && BOLT12_OFFER_PATTERN.test(uri.lno)) {
+    instructions.push({ type: 'bolt12', offer: uri.lno });
+  }
+  if (uri.lightning) {
+    const lightning = parseBareInstruction(uri.lightning);
+    if (lightning && (lightning.type === 'bolt11' || lightning.type === 'lnurl')) {
+      instructions.push(lightning);
+    }
+  }
+  if (uri.sp && SILENT_PAYMENT_PATTERN.test(uri.sp)) {
+    instructions.push({ type: 'silent_payment', address: uri.sp });
+  }
+  if (uri.address) {
+    const onchain = parseBareInstruction(uri.address);
+    if (onchain?.type === 'onchain') {
+      instructions.push({ ...onchain, amount: uri.amount });
+    } else if (onchain?.type === 'silent_payment') {
+      instructions.push(onchain);
+    }
+  }
+
+  return instructions;
+}
+
+/**
+ * Parse a payment instruction string into its preferred payment method
+ * @param raw An invoice, offer, LNURL, address or bitcoin: URI
+ * @returns The preferred payment method, or null if the string isn't one we recognise
+ */
+export function parsePaymentInstruction(raw: string): PaymentInstruction | null {
+  return parsePaymentInstructions(raw)[0] ?? null;
+}
+
+/**
+ * Check whether an on-chain or silent payment address belongs to the given network.
+ * Lightning instructions carry their network themselves and always pass here.
+ */
+export function isPaymentInstructionForNetwork(instruction: PaymentInstruction, network: BitcoinNetwork): boolean {
+  if (instruction.type === 'onchain') {
+    const address = instruction.address.toLowerCase();
+    if (address.startsWith('bcrt1')) {
+      return network === 'regtest';
+    }
+    if (address.startsWith('bc1') || /^[13]/.test(instruction.address)) {
+      return network === 'mainnet';
+    }
+    // tb1 and m/n/2 addresses are shared by testnet, signet and regtest
+    return network !== 'mainnet';
+  }
+
+  if (instruction.type === 'silent_payment') {
+    return instruction.address.toLowerCase().startsWith('tsp1') ? network !== 'mainnet' : network === 'mainnet';
+  }
+
+  return true;
+}
+
+/**
+ * Encode a payment instruction as the string a wallet scans
+ * @param instruction The payment method
+ * @returns The invoice, LNURL, or a bitcoin: URI for offers and addresses
+ */
+export function encodePaymentInstruction(instruction: PaymentInstruction): string {
+  switch (instruction.type) {
+    case 'bolt11':
+      return instruction.invoice;
+    case 'bolt12':
+      return `bitcoin:?lno=${instruction.offer}`;
+    case 'lnurl':
+      return instruction.lnurl;
+    case 'onchain':
+      return instruction.amount
+        ? `bitcoin:${instruction.address}?amount=${instruction.amount}`
+        : `bitcoin:${instruction.address}`;
+    case 'silent_payment':
+      return `bitcoin:?sp=${instruction.address}`;
+  }
+}
+
+/**
+ * Get the string to show as "payment details" for a payment method, without any URI wrapping
+ */
+export function getPaymentInstructionValue(instruction: PaymentInstruction): string {
+  switch (instruction.type) {
+    case 'bolt11':
+      return instruction.invoice;
+    case 'bolt12':
+      return instruction.offer;
+    case 'lnurl':
+      return instruction.lnurl;
+    case 'onchain':
+    case 'silent_payment':
+      return instruction.address;
+  }
+}
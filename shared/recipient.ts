@@ -0,0 +1,82 @@
+// Recipient identifiers shared by the server and the client.
+// A recipient is either something that resolves to payment instructions on its own
+// (₿tag / Lightning Address) or a Nostr identity whose profile says how to pay them.
+// user@domain is ambiguous: it can be a ₿tag, a Lightning Address or a NIP-05 name.
+import { nip19 } from 'nostr-tools';
+
+// How a recipient was interpreted: as a ₿tag/Lightning Address, or as a Nostr identity
+export type RecipientInterpretation = 'btag' | 'nostr';
+
+export type RecipientKind =
+  | 'npub'
+  | 'nprofile' // npub plus relay hints (NIP-19)
+  | 'hex' // Raw 64 character pubkey
+  | 'user_at_domain' // ₿tag, Lightning Address or NIP-05 identifier
+  | 'unknown';
+
+// A Nostr identity decoded from an npub, nprofile or hex pubkey
+export interface NostrRecipient {
+  pubkey: string; // Hex
+  npub: string;
+  relays: string[]; // Relay hints from an nprofile, otherwise empty
+}
+
+const HEX_PUBKEY_PATTERN = /^[0-9a-f]{64}$/i;
+const USER_AT_DOMAIN_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+/**
+ * Work out what kind of identifier a recipient is, without any network lookups
+ * @param recipient What the sender typed, optionally with a leading ₿ or nostr: prefix
+ */
+export function classifyRecipient(recipient: string): RecipientKind {
+  const value = recipient.trim().replace(/^₿/, '').replace(/^nostr:/i, '');
+
+  if (/^npub1[0-9a-z]+$/i.test(value)) {
+    return 'npub';
+  }
+  if (/^nprofile1[0-9a-z]+$/i.test(value)) {
+    return 'nprofile';
+  }
+  if (HEX_PUBKEY_PATTERN.test(value)) {
+    return 'hex';
+  }
+  if (USER_AT_DOMAIN_PATTERN.test(value)) {
+    return 'user_at_domain';
+  }
+  return 'unknown';
+}
+
+/**
+ * Decode an npub, nprofile or hex pubkey
+ * @param recipient The identifier, optionally prefixed with "nostr:"
+ * @returns The pubkey, its npub and any relay hints, or null if it isn't a valid Nostr identity
+ */
+export function parseNostrRecipient(recipient: string): NostrRecipient | null {
+  const value = recipient.trim().replace(/^nostr:/i, '');
+
+  try {
+    switch (classifyRecipient(value)) {
+      case 'hex': {
+        const pubkey = value.toLowerCase();
+        return { pubkey, npub: nip19.npubEncode(pubkey), relays: [] };
+      }
+      case 'npub': {
+        const decoded = nip19.decode(value);
+        return decoded.type === 'npub' ? { pubkey: decoded.data, npub: value, relays: [] } : null;
+      }
+      case 'nprofile': {
+        const decoded = nip19.decode(value);
+        if (decoded.type !== 'nprofile') {
+          return null;
+        }
+        // Only keep hints that are actually relay URLs
+        const relays = (decoded.data.relays || []).filter((relay) => /^wss?:\/\//i.test(relay));
+        return { pubkey: decoded.data.pubkey, npub: nip19.npubEncode(decoded.data.pubkey), relays };
+      }
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
@@ -1,6 +1,7 @@
 import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { fiatCurrencies } from "./honorarium";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -24,14 +25,98 @@ export const highFives = pgTable("high_fives", {
   profileName: text("profile_name"), // Profile name for npub recipients
   senderProfileName: text("sender_profile_name"), // Profile name for npub senders
   qrCodePath: text("qr_code_path"), // Path to the QR code image file
+  paymentRequest: text("payment_request"), // BOLT11 invoice issued for this high five
+  paymentVerifyUrl: text("payment_verify_url"), // LUD-21 verify URL for the invoice, if offered
+  paymentStatus: text("payment_status"), // 'pending' | 'paid' | 'expired', null when the payment can't be verified
+  paymentPreimage: text("payment_preimage"), // Preimage reported by the verify URL once settled
+  paidAt: text("paid_at"), // Timestamp when settlement was verified
+  senderConfirmedAt: text("sender_confirmed_at"), // When the sender said they paid, for payments we can't verify
+  paymentInstructions: text("payment_instructions"), // Payment instruction shown to the sender (invoice or offer)
+  lightningAddress: text("lightning_address"), // Lightning Address the payment instruction came from, if any
+  publicationPolicy: text("publication_policy"), // When to publish to Nostr: 'on_verify' | 'immediate' | 'delayed'
+  publishAfter: text("publish_after"), // Deadline for 'delayed' publication
+  publicationState: text("publication_state"), // 'queued' | 'published' | 'failed' | 'abandoned', null for legacy rows
+  amountSats: integer("amount_sats"), // Honorarium amount in sats, null for legacy rows
+  fiatAmount: text("fiat_amount"), // amountSats in fiatCurrency at the server's exchange rate, as a decimal string
+  fiatCurrency: text("fiat_currency"), // ISO 4217 code of fiatAmount, e.g. 'USD'
+  nostrEvent: text("nostr_event"), // Signed note JSON, prepared up front when a zap needs to reference it
+  nostrIdentifier: text("nostr_identifier"), // d tag of the structured high five event the note points at
+  zapRequest: text("zap_request"), // Signed kind 9734 zap request JSON for zapped high fives
+  zapperPubkey: text("zapper_pubkey"), // Pubkey the recipient's LNURL service signs zap receipts with
+  zapReceiptId: text("zap_receipt_id"), // ID of the kind 9735 zap receipt once seen on a relay
+  seenOnRelays: integer("seen_on_relays"), // Number of distinct relays that accepted the note
+  publishAttempts: integer("publish_attempts"), // Times the note has been broadcast, for the republish backoff
+  nextPublishAttemptAt: text("next_publish_attempt_at"), // When the note is next re-broadcast, null once enough relays have it
 });
 
-export const insertHighFiveSchema = createInsertSchema(highFives).omit({
-  id: true,
-  createdAt: true,
+// Each relay's answer to each attempt at publishing a high five's note
+export const highFivePublications = pgTable("high_five_publications", {
+  id: serial("id").primaryKey(),
+  highFiveId: integer("high_five_id").notNull(),
+  eventId: text("event_id").notNull(), // Nostr event ID that was published
+  relay: text("relay").notNull(), // Relay URL
+  status: text("status").notNull(), // 'accepted' | 'rejected' | 'timeout' | 'unreachable'
+  message: text("message"), // Relay's rejection reason or the connection error
+  latencyMs: integer("latency_ms"),
+  attemptedAt: text("attempted_at").notNull(),
+});
+
+// Latest Nostr profile metadata (kind 0) seen for each pubkey, so lookups don't wait on relays
+export const profileCache = pgTable("profile_cache", {
+  pubkey: text("pubkey").primaryKey(), // Hex pubkey
+  event: text("event"), // Signed kind 0 event JSON, null when relays had no profile
+  eventCreatedAt: integer("event_created_at"), // created_at of the event, to keep only the newest
+  fetchedAt: text("fetched_at").notNull(), // When relays were last asked, for the TTL
+});
+
+// Nostr relays configured per purpose; rows here take precedence over the NOSTR_*_RELAYS env vars
+export const nostrRelays = pgTable("nostr_relays", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(), // e.g. wss://relay.damus.io
+  purpose: text("purpose").notNull(), // 'publish' | 'dm' | 'profile'
+  enabled: boolean("enabled").notNull().default(true),
+});
+
+// What a relay is used for
+export const relayPurposes = ["publish", "dm", "profile"] as const;
+export type RelayPurpose = typeof relayPurposes[number];
+
+// How a relay answered a publish: accepted, refused with a reason, never answered, or couldn't be reached
+export const relayPublishStatuses = ["accepted", "rejected", "timeout", "unreachable"] as const;
+export type RelayPublishStatus = typeof relayPublishStatuses[number];
+
+// Payment states for high fives whose invoice we can verify
+export const paymentStatuses = ["pending", "paid", "expired"] as const;
+export type PaymentStatus = typeof paymentStatuses[number];
+
+// Sender-chosen policies for when a high five is published to Nostr
+export const publicationPolicies = ["on_verify", "immediate", "delayed"] as const;
+export type PublicationPolicy = typeof publicationPolicies[number];
+
+export const publicationStates = ["queued", "published", "failed", "abandoned"] as const;
+export type PublicationState = typeof publicationStates[number];
+
+// What clients may send when creating a high five; payment, publication and Nostr
+// columns are owned by the server and set when the high five is stored
+export const insertHighFiveSchema = createInsertSchema(highFives, {
+  publicationPolicy: z.enum(publicationPolicies).nullish(),
+  amountSats: z.number().int().positive().nullish(),
+  fiatCurrency: z.enum(fiatCurrencies).nullish(),
+}).pick({
+  recipient: true,
+  reason: true,
+  sender: true,
+  publicationPolicy: true,
+  amountSats: true,
+  fiatCurrency: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
-export type InsertHighFive = z.infer<typeof insertHighFiveSchema>;
+export type HighFiveRequest = z.infer<typeof insertHighFiveSchema>;
+export type InsertHighFive = Omit<typeof highFives.$inferInsert, "id" | "createdAt">;
 export type HighFive = typeof highFives.$inferSelect;
+export type ProfileCacheEntry = typeof profileCache.$inferSelect;
+export type NostrRelay = typeof nostrRelays.$inferSelect;
+export type HighFivePublication = typeof highFivePublications.$inferSelect;
+export type InsertHighFivePublication = typeof highFivePublications.$inferInsert;